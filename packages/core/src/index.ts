@@ -1,22 +1,56 @@
 // Tokenizer
 export { TokenType } from './tokenizer/TokenType.js';
-export { Token, createToken, tokenToString } from './tokenizer/Token.js';
-export { Tokenizer, TokenizerError } from './tokenizer/Tokenizer.js';
+export { Token, TemplatePart, SourceSpan, SourceComment, createToken, spanBetween, copySpan, tokenToString } from './tokenizer/Token.js';
+export { Tokenizer, TokenizerError, type TokenizeResult } from './tokenizer/Tokenizer.js';
 
 // Parser
 export * from './parser/Expression.js';
 export * from './parser/Statement.js';
-export { Parser, ParserError } from './parser/Parser.js';
+export { Parser, ParserError, type ParseResult } from './parser/Parser.js';
+export { Formatter, type FormatterOptions } from './parser/Formatter.js';
+export {
+  astToJSON,
+  astFromJSON,
+  AstValidationError,
+  AST_SCHEMA_VERSION,
+  type AstDocument,
+  type AstJsonOptions,
+} from './parser/AstJson.js';
+export {
+  forEachChild,
+  walkStatements,
+  walkNode,
+  transformStatements,
+  transformStatement,
+  transformExpression,
+  isExpression,
+  isStatement,
+  type AstNode,
+  type AstVisitor,
+  type AstTransformer,
+  type StatementHandlers,
+  type ExpressionHandlers,
+} from './parser/Visitor.js';
 
 // Runtime
-export { SongNode } from './runtime/Node.js';
-export { Graph, type NodeData, type EdgeData, type GraphData } from './runtime/Graph.js';
-export { Interpreter, type OutputCallback, type InterpreterOptions } from './runtime/Interpreter.js';
+export { SongNode, type NodeMutation } from './runtime/Node.js';
+export { RelationEdge } from './runtime/Edge.js';
+export { Graph, type NodeData, type EdgeData, type GraphData, type GraphMutation } from './runtime/Graph.js';
+export {
+  Interpreter,
+  DEFAULT_MAX_LOOP_ITERATIONS,
+  DEFAULT_MAX_CALL_DEPTH,
+  DEFAULT_MAX_TRIGGER_CASCADE,
+  type OutputCallback,
+  type InterpreterOptions,
+} from './runtime/Interpreter.js';
+export { listBuiltins, type BuiltinInfo } from './runtime/Builtins.js';
 export { SongError, InterpreterError, ErrorType, fromException } from './runtime/SongError.js';
 
 // Internal imports for run function
 import { Tokenizer } from './tokenizer/Tokenizer.js';
 import { Parser } from './parser/Parser.js';
+import { Formatter } from './parser/Formatter.js';
 import { Interpreter } from './runtime/Interpreter.js';
 
 /**
@@ -24,7 +58,12 @@ import { Interpreter } from './runtime/Interpreter.js';
  */
 export function run(
   code: string,
-  options: { onOutput?: (line: string) => void } = {}
+  options: {
+    onOutput?: (line: string) => void;
+    maxLoopIterations?: number;
+    maxCallDepth?: number;
+    maxTriggerCascade?: number;
+  } = {}
 ): { interpreter: Interpreter; output: string[] } {
   const output: string[] = [];
 
@@ -33,6 +72,9 @@ export function run(
       output.push(line);
       options.onOutput?.(line);
     },
+    maxLoopIterations: options.maxLoopIterations,
+    maxCallDepth: options.maxCallDepth,
+    maxTriggerCascade: options.maxTriggerCascade,
   });
 
   const tokenizer = new Tokenizer(code);
@@ -41,7 +83,21 @@ export function run(
   const parser = new Parser(tokens);
   const statements = parser.parse();
 
+  interpreter.setSource(tokens, statements);
   interpreter.execute(statements);
 
   return { interpreter, output };
 }
+
+/**
+ * 코드를 표준 형식으로 정리합니다. 주석은 보존됩니다.
+ */
+export function format(code: string, options: { indent?: string } = {}): string {
+  const tokenizer = new Tokenizer(code);
+  const tokens = tokenizer.tokenize();
+
+  const parser = new Parser(tokens);
+  const statements = parser.parse();
+
+  return new Formatter({ indent: options.indent, comments: tokenizer.comments }).format(statements);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../tokenizer/Tokenizer.js';
+import { Parser } from './Parser.js';
+import { astToJSON, astFromJSON, AstValidationError, AST_SCHEMA_VERSION } from './AstJson.js';
+import { Statement } from './Statement.js';
+
+function parse(source: string): Statement[] {
+  return new Parser(new Tokenizer(source).tokenize()).parse();
+}
+
+const SOURCE = `Player IS Entity
+Player HAS HP (10 + RANDOM 1 6)
+"HP {Player.HP}" PRINT
+Player WHEN (HP > 5) DO
+  Player PRINT
+ELSE DO
+  Player LOSES HP
+END
+ALL Monster AS m DO
+  m HAS HP (m.HP - 1)
+END
+LET total = [1, 2]
+FUNCTION Twice(n) DO
+  RETURN n * 2
+END
+TRUSTS IS RELATION
+Alice TRUSTS Bob WITH Level 3
+?m IS Monster AND NOT ?m HAS HP 0 WHERE ?m.HP > 1 ORDER BY ?m.HP DESC LIMIT 2
+RULE ?x IS Undead WHEN ?x IS Monster AND ?x HAS HP 0
+ON Monster.HP CHANGES AS m DO
+  m PRINT
+END
+ON ?x IS Dead WHERE ?x.HP < 1 DO
+  x PRINT
+END`;
+
+describe('AstJson', () => {
+  it('직렬화한 뒤 읽으면 같은 AST가 된다', () => {
+    const statements = parse(SOURCE);
+    const document = astToJSON(statements);
+    expect(document.version).toBe(AST_SCHEMA_VERSION);
+    expect(astFromJSON(document)).toEqual(statements);
+  });
+
+  it('JSON 문자열에서도 읽는다', () => {
+    const statements = parse(SOURCE);
+    expect(astFromJSON(JSON.stringify(astToJSON(statements)))).toEqual(statements);
+  });
+
+  it('spans: false이면 위치 정보를 뺀다', () => {
+    const document = astToJSON(parse('Player PRINT'), { spans: false });
+    expect(document.statements[0]).not.toHaveProperty('line');
+    expect(astFromJSON(document)[0].kind).toBe('relation');
+  });
+
+  it('현재 버전이 아닌 문서는 거부한다', () => {
+    for (const version of [0, 1, AST_SCHEMA_VERSION + 1, String(AST_SCHEMA_VERSION)]) {
+      expect(() => astFromJSON({ version, statements: [] })).toThrow(AstValidationError);
+    }
+  });
+
+  it('빠진 필드를 기본값으로 채우지 않는다', () => {
+    const document = astToJSON(parse('?x IS Dragon'), { spans: false });
+    const { orderBy, ...rest } = document.statements[0] as Record<string, unknown>;
+    expect(orderBy).toEqual([]);
+    expect(() => astFromJSON({ ...document, statements: [rest] })).toThrow(/statements\[0\]\.orderBy/);
+  });
+
+  it('잘못된 노드는 경로와 함께 거부한다', () => {
+    const document = astToJSON(parse('Player HAS HP 1'), { spans: false });
+    const broken = { ...document, statements: [{ ...(document.statements[0] as object), relation: 5 }] };
+    expect(() => astFromJSON(broken)).toThrow(/statements\[0\]\.relation/);
+  });
+});
@@ -0,0 +1,596 @@
+import { SourceSpan } from '../tokenizer/Token.js';
+import {
+  Expression,
+  BinaryOperator,
+  UnaryOperator,
+  createNumberExpr,
+  createStringExpr,
+  createIdentifierExpr,
+  createPropertyAccessExpr,
+  createBinaryExpr,
+  createUnaryExpr,
+  createGroupingExpr,
+  createRandomExpr,
+  createInterpolationExpr,
+  createIndexExpr,
+  createListExpr,
+  createCallExpr,
+  createAggregateExpr,
+  AggregateFunction,
+} from './Expression.js';
+import {
+  Statement,
+  RelationAttribute,
+  WhenExpressionStatement,
+  QueryPattern,
+  QueryCondition,
+  createQueryClause,
+  createQueryLogical,
+  createQueryNot,
+  QueryModifiers,
+  createQueryOrder,
+  LosesType,
+  EachSource,
+  DebugTarget,
+  createWildcardPattern,
+  createVariablePattern,
+  createRelationStmt,
+  createHasExpressionStmt,
+  createExpressionPrintStmt,
+  createExpressionHasStmt,
+  createRoleDefinitionStmt,
+  createDoBlockStmt,
+  createCanStmt,
+  createLosesStmt,
+  createDebugStmt,
+  createWhenStmt,
+  createWhenExpressionStmt,
+  createChanceStmt,
+  createAllStmt,
+  createEachStmt,
+  createWhileStmt,
+  createRepeatStmt,
+  createLetStmt,
+  createSetStmt,
+  createFunctionStmt,
+  createReturnStmt,
+  createQueryStmt,
+  createRuleStmt,
+  createOnChangeStmt,
+  createOnMatchStmt,
+} from './Statement.js';
+
+/**
+ * AST JSON 스키마 버전
+ * 노드 모양이 바뀌면 올린다. 읽기는 현재 버전 문서만 지원한다.
+ * - 1: 처음 공개한 모양. 이후 노드가 추가되면서 같은 번호로 여러 모양이 기록되었으므로 더 이상 읽지 않는다.
+ * - 2: 관계 간선 속성, 리스트, 함수, 반복, 변수, 집계, 다중 절 쿼리와 후처리, 규칙, 트리거
+ */
+export const AST_SCHEMA_VERSION = 2;
+
+/**
+ * 직렬화된 AST 문서
+ */
+export interface AstDocument {
+  readonly version: number;
+  readonly statements: unknown[];
+}
+
+/**
+ * AST 직렬화 옵션
+ */
+export interface AstJsonOptions {
+  /** 위치 정보 포함 여부 (기본: true). 테스트에서 AST를 비교할 때는 끄는 것이 편하다. */
+  spans?: boolean;
+}
+
+/**
+ * AST 검증 오류
+ */
+export class AstValidationError extends Error {
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(`[${path}] ${message}`);
+    this.name = 'AstValidationError';
+    this.path = path;
+  }
+}
+
+/**
+ * 문장 목록을 버전이 붙은 JSON 호환 객체로 변환
+ */
+export function astToJSON(statements: Statement[], options: AstJsonOptions = {}): AstDocument {
+  const reader = new AstReader();
+  const json = statements.map((stmt, i) => reader.readStatement(stmt, `statements[${i}]`));
+  return {
+    version: AST_SCHEMA_VERSION,
+    statements: options.spans === false ? json.map(stripSpans) : json,
+  };
+}
+
+/**
+ * JSON 문자열 또는 객체에서 문장 목록을 검증하며 읽어온다
+ */
+export function astFromJSON(data: unknown): Statement[] {
+  let document = data;
+  if (typeof data === 'string') {
+    try {
+      document = JSON.parse(data);
+    } catch (error) {
+      throw new AstValidationError(`JSON 파싱 실패: ${(error as Error).message}`, '$');
+    }
+  }
+
+  if (!isRecord(document)) {
+    throw new AstValidationError('AST 문서는 객체여야 합니다', '$');
+  }
+  if (document.version !== AST_SCHEMA_VERSION) {
+    throw new AstValidationError(
+      `지원하지 않는 AST 스키마 버전: ${String(document.version)} (지원: ${AST_SCHEMA_VERSION})`,
+      'version'
+    );
+  }
+  if (!Array.isArray(document.statements)) {
+    throw new AstValidationError('statements는 배열이어야 합니다', 'statements');
+  }
+
+  const reader = new AstReader();
+  return document.statements.map((stmt, i) => reader.readStatement(stmt, `statements[${i}]`));
+}
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const EMPTY_SPAN: SourceSpan = { line: 0, column: 0, endLine: 0, endColumn: 0, offset: 0, endOffset: 0 };
+
+const SPAN_FIELDS = ['line', 'column', 'endLine', 'endColumn', 'offset', 'endOffset'] as const;
+
+/**
+ * 노드 트리에서 위치 필드를 재귀적으로 제거
+ */
+function stripSpans(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripSpans);
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+  const result: JsonRecord = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (!(SPAN_FIELDS as readonly string[]).includes(key)) {
+      result[key] = stripSpans(child);
+    }
+  }
+  return result;
+}
+
+/**
+ * 검증하며 AST 노드를 새로 만드는 읽기 도구
+ * 직렬화와 역직렬화가 같은 경로를 타므로 두 방향의 모양이 항상 일치한다.
+ */
+class AstReader {
+  readStatement(value: unknown, path: string): Statement {
+    const obj = this.readRecord(value, path);
+    const span = this.readSpan(obj, path);
+
+    switch (obj.kind) {
+      case 'relation':
+        return createRelationStmt(
+          this.readString(obj, 'subject', path),
+          this.readString(obj, 'relation', path),
+          this.readArray(obj, 'arguments', path).map((arg, i) => this.readScalar(arg, `${path}.arguments[${i}]`)),
+          span,
+          this.readAttributes(obj, path)
+        );
+      case 'hasExpression':
+        return createHasExpressionStmt(
+          this.readString(obj, 'subject', path),
+          this.readString(obj, 'property', path),
+          this.readExpression(obj.valueExpression, `${path}.valueExpression`),
+          span
+        );
+      case 'expressionPrint':
+        return createExpressionPrintStmt(this.readExpression(obj.subject, `${path}.subject`), span);
+      case 'expressionHas':
+        return createExpressionHasStmt(
+          this.readExpression(obj.subject, `${path}.subject`),
+          this.readString(obj, 'property', path),
+          this.readScalar(obj.value, `${path}.value`),
+          obj.valueExpression === null ? null : this.readExpression(obj.valueExpression, `${path}.valueExpression`),
+          span
+        );
+      case 'roleDefinition':
+        return createRoleDefinitionStmt(this.readString(obj, 'subject', path), this.readString(obj, 'roleName', path), span);
+      case 'doBlock':
+        return createDoBlockStmt(
+          this.readString(obj, 'subject', path),
+          this.readBody(obj, 'body', path),
+          span,
+          this.readBoolean(obj, 'undo', path)
+        );
+      case 'can':
+        return createCanStmt(this.readString(obj, 'subject', path), this.readString(obj, 'ability', path), span);
+      case 'loses':
+        return createLosesStmt(
+          this.readString(obj, 'subject', path),
+          this.readString(obj, 'target', path),
+          this.readEnum(obj, 'type', Object.values(LosesType), path),
+          span,
+          this.readScalar(obj.argument, `${path}.argument`)
+        );
+      case 'debug':
+        return createDebugStmt(this.readEnum(obj, 'target', Object.values(DebugTarget), path), span);
+      case 'when':
+        return createWhenStmt(
+          this.readStatement(obj.condition, `${path}.condition`),
+          this.readBody(obj, 'body', path),
+          span
+        );
+      case 'whenExpression':
+        return this.readWhenExpression(obj, path, span);
+      case 'chance':
+        return createChanceStmt(
+          this.readExpression(obj.percent, `${path}.percent`),
+          this.readBody(obj, 'body', path),
+          obj.elseBody === null ? null : this.readBody(obj, 'elseBody', path),
+          span
+        );
+      case 'while':
+        return createWhileStmt(
+          this.readExpression(obj.condition, `${path}.condition`),
+          this.readBody(obj, 'body', path),
+          span
+        );
+      case 'repeat':
+        return createRepeatStmt(this.readExpression(obj.count, `${path}.count`), this.readBody(obj, 'body', path), span);
+      case 'function':
+        return createFunctionStmt(
+          this.readString(obj, 'name', path),
+          this.readArray(obj, 'parameters', path).map((param, i) => {
+            if (typeof param !== 'string') {
+              throw new AstValidationError('문자열이 필요합니다', `${path}.parameters[${i}]`);
+            }
+            return param;
+          }),
+          this.readBody(obj, 'body', path),
+          span
+        );
+      case 'return':
+        return createReturnStmt(this.readExpression(obj.value, `${path}.value`), span);
+      case 'let':
+        return createLetStmt(this.readString(obj, 'name', path), this.readExpression(obj.value, `${path}.value`), span);
+      case 'set':
+        return createSetStmt(this.readString(obj, 'name', path), this.readExpression(obj.value, `${path}.value`), span);
+      case 'all':
+        return createAllStmt(
+          this.readString(obj, 'typeName', path),
+          this.readNullableString(obj, 'queryVariable', path),
+          obj.action === null ? null : this.readStatement(obj.action, `${path}.action`),
+          span,
+          this.readNullableString(obj, 'binding', path),
+          obj.body === null ? null : this.readBody(obj, 'body', path)
+        );
+      case 'each':
+        return createEachStmt(
+          this.readString(obj, 'collection', path),
+          this.readString(obj, 'variable', path),
+          this.readBody(obj, 'body', path),
+          span,
+          this.readEnum(obj, 'source', Object.values(EachSource), path),
+          obj.collectionExpression === null
+            ? null
+            : this.readExpression(obj.collectionExpression, `${path}.collectionExpression`)
+        );
+      case 'query':
+        return createQueryStmt(
+          this.readQueryPattern(obj.subject, `${path}.subject`),
+          this.readString(obj, 'relation', path),
+          this.readNullableString(obj, 'target', path),
+          this.readScalar(obj.targetValue, `${path}.targetValue`),
+          obj.whereCondition === null ? null : this.readExpression(obj.whereCondition, `${path}.whereCondition`),
+          span,
+          this.readQueryCondition(obj.condition, `${path}.condition`),
+          this.readQueryModifiers(obj, path)
+        );
+      case 'on':
+        if (obj.condition === null) {
+          return createOnChangeStmt(
+            this.readString(obj, 'subject', path),
+            this.readString(obj, 'property', path),
+            this.readNullableString(obj, 'binding', path),
+            this.readBody(obj, 'body', path),
+            span
+          );
+        }
+        return createOnMatchStmt(
+          this.readQueryCondition(obj.condition, `${path}.condition`),
+          obj.whereCondition === null ? null : this.readExpression(obj.whereCondition, `${path}.whereCondition`),
+          this.readBody(obj, 'body', path),
+          span
+        );
+      case 'rule': {
+        const head = this.readQueryCondition(obj.head, `${path}.head`);
+        if (head.kind !== 'clause') {
+          throw new AstValidationError('규칙 결론은 절 하나여야 합니다', `${path}.head.kind`);
+        }
+        return createRuleStmt(
+          head,
+          this.readQueryCondition(obj.condition, `${path}.condition`),
+          obj.whereCondition === null ? null : this.readExpression(obj.whereCondition, `${path}.whereCondition`),
+          span
+        );
+      }
+      default:
+        throw new AstValidationError(`알 수 없는 문장 종류: ${String(obj.kind)}`, `${path}.kind`);
+    }
+  }
+
+  private readWhenExpression(obj: JsonRecord, path: string, span: SourceSpan): WhenExpressionStatement {
+    let elseWhen: WhenExpressionStatement | null = null;
+    if (obj.elseWhen !== null) {
+      const elseWhenPath = `${path}.elseWhen`;
+      const stmt = this.readStatement(obj.elseWhen, elseWhenPath);
+      if (stmt.kind !== 'whenExpression') {
+        throw new AstValidationError('elseWhen은 whenExpression이어야 합니다', elseWhenPath);
+      }
+      elseWhen = stmt;
+    }
+
+    return createWhenExpressionStmt(
+      this.readString(obj, 'subject', path),
+      this.readExpression(obj.condition, `${path}.condition`),
+      this.readBody(obj, 'body', path),
+      obj.elseBody === null ? null : this.readBody(obj, 'elseBody', path),
+      elseWhen,
+      span
+    );
+  }
+
+  private readExpression(value: unknown, path: string): Expression {
+    const obj = this.readRecord(value, path);
+    const span = this.readSpan(obj, path);
+
+    switch (obj.kind) {
+      case 'number':
+        return createNumberExpr(this.readNumber(obj, 'value', path), span);
+      case 'string':
+        return createStringExpr(this.readString(obj, 'value', path), span);
+      case 'identifier':
+        return createIdentifierExpr(this.readString(obj, 'name', path), span);
+      case 'propertyAccess':
+        return createPropertyAccessExpr(
+          this.readExpression(obj.object, `${path}.object`),
+          this.readString(obj, 'property', path),
+          span
+        );
+      case 'binary':
+        return createBinaryExpr(
+          this.readExpression(obj.left, `${path}.left`),
+          this.readEnum(obj, 'operator', Object.values(BinaryOperator), path),
+          this.readExpression(obj.right, `${path}.right`),
+          span
+        );
+      case 'unary':
+        return createUnaryExpr(
+          this.readEnum(obj, 'operator', Object.values(UnaryOperator), path),
+          this.readExpression(obj.operand, `${path}.operand`),
+          span
+        );
+      case 'grouping':
+        return createGroupingExpr(this.readExpression(obj.inner, `${path}.inner`), span);
+      case 'random':
+        return createRandomExpr(
+          this.readExpression(obj.min, `${path}.min`),
+          this.readExpression(obj.max, `${path}.max`),
+          span
+        );
+      case 'interpolation':
+        return createInterpolationExpr(
+          this.readArray(obj, 'parts', path).map((part, i) =>
+            typeof part === 'string' ? part : this.readExpression(part, `${path}.parts[${i}]`)
+          ),
+          span
+        );
+      case 'list':
+        return createListExpr(
+          this.readArray(obj, 'elements', path).map((e, i) => this.readExpression(e, `${path}.elements[${i}]`)),
+          span
+        );
+      case 'index':
+        return createIndexExpr(
+          this.readExpression(obj.object, `${path}.object`),
+          this.readExpression(obj.index, `${path}.index`),
+          span
+        );
+      case 'aggregate':
+        return createAggregateExpr(
+          this.readEnum(obj, 'func', Object.values(AggregateFunction), path),
+          this.readNullableString(obj, 'property', path),
+          this.readString(obj, 'source', path),
+          this.readBoolean(obj, 'isQuery', path),
+          span
+        );
+      case 'call':
+        return createCallExpr(
+          this.readString(obj, 'callee', path),
+          this.readArray(obj, 'args', path).map((arg, i) => this.readExpression(arg, `${path}.args[${i}]`)),
+          span
+        );
+      default:
+        throw new AstValidationError(`알 수 없는 표현식 종류: ${String(obj.kind)}`, `${path}.kind`);
+    }
+  }
+
+  private readAttributes(obj: JsonRecord, path: string): RelationAttribute[] {
+    return this.readArray(obj, 'attributes', path).map((value, i) => {
+      const attrPath = `${path}.attributes[${i}]`;
+      const attr = this.readRecord(value, attrPath);
+      return {
+        name: this.readString(attr, 'name', attrPath),
+        value: this.readExpression(attr.value, `${attrPath}.value`),
+      };
+    });
+  }
+
+  private readQueryCondition(value: unknown, path: string): QueryCondition {
+    const obj = this.readRecord(value, path);
+
+    switch (obj.kind) {
+      case 'clause': {
+        const subject =
+          obj.subject === null
+            ? this.readString(obj, 'subjectName', path)
+            : this.readQueryPattern(obj.subject, `${path}.subject`);
+        const targetVariable = this.readNullableString(obj, 'targetVariable', path);
+        return createQueryClause(
+          subject,
+          this.readString(obj, 'relation', path),
+          targetVariable !== null ? createVariablePattern(targetVariable) : this.readNullableString(obj, 'target', path),
+          this.readScalar(obj.targetValue, `${path}.targetValue`)
+        );
+      }
+      case 'and':
+      case 'or':
+        return createQueryLogical(
+          obj.kind,
+          this.readQueryCondition(obj.left, `${path}.left`),
+          this.readQueryCondition(obj.right, `${path}.right`)
+        );
+      case 'not':
+        return createQueryNot(this.readQueryCondition(obj.operand, `${path}.operand`));
+      default:
+        throw new AstValidationError(`알 수 없는 쿼리 조건 종류: ${String(obj.kind)}`, `${path}.kind`);
+    }
+  }
+
+  /**
+   * 쿼리 후처리 필드 (limit, skip은 null 또는 0 이상의 정수)
+   */
+  private readQueryModifiers(obj: JsonRecord, path: string): QueryModifiers {
+    const orderBy = this.readArray(obj, 'orderBy', path).map((value, i) => {
+      const keyPath = `${path}.orderBy[${i}]`;
+      const key = this.readRecord(value, keyPath);
+      return createQueryOrder(
+        this.readExpression(key.expression, `${keyPath}.expression`),
+        this.readBoolean(key, 'descending', keyPath)
+      );
+    });
+
+    return {
+      distinct: this.readBoolean(obj, 'distinct', path),
+      orderBy,
+      limit: this.readCount(obj, 'limit', path),
+      skip: this.readCount(obj, 'skip', path),
+    };
+  }
+
+  private readCount(obj: JsonRecord, key: string, path: string): number | null {
+    if (obj[key] === null) return null;
+    const count = this.readNumber(obj, key, path);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new AstValidationError('0 이상의 정수가 필요합니다', `${path}.${key}`);
+    }
+    return count;
+  }
+
+  private readQueryPattern(value: unknown, path: string): QueryPattern {
+    const obj = this.readRecord(value, path);
+    if (obj.isWildcard === true) {
+      return createWildcardPattern();
+    }
+    if (obj.isWildcard !== false) {
+      throw new AstValidationError('isWildcard는 boolean이어야 합니다', `${path}.isWildcard`);
+    }
+    return createVariablePattern(this.readString(obj, 'variableName', path));
+  }
+
+  private readBody(obj: JsonRecord, key: string, path: string): Statement[] {
+    return this.readArray(obj, key, path).map((stmt, i) => this.readStatement(stmt, `${path}.${key}[${i}]`));
+  }
+
+  /**
+   * 위치 정보: 없으면 빈 범위, 일부만 있으면 오류
+   */
+  private readSpan(obj: JsonRecord, path: string): SourceSpan {
+    if (SPAN_FIELDS.every((key) => obj[key] === undefined)) {
+      return EMPTY_SPAN;
+    }
+
+    const span = {} as Record<(typeof SPAN_FIELDS)[number], number>;
+    for (const key of SPAN_FIELDS) {
+      span[key] = this.readNumber(obj, key, path);
+    }
+    return span;
+  }
+
+  private readRecord(value: unknown, path: string): JsonRecord {
+    if (!isRecord(value)) {
+      throw new AstValidationError('객체가 필요합니다', path);
+    }
+    return value;
+  }
+
+  private readArray(obj: JsonRecord, key: string, path: string): unknown[] {
+    const value = obj[key];
+    if (!Array.isArray(value)) {
+      throw new AstValidationError('배열이 필요합니다', `${path}.${key}`);
+    }
+    return value;
+  }
+
+  private readString(obj: JsonRecord, key: string, path: string): string {
+    const value = obj[key];
+    if (typeof value !== 'string') {
+      throw new AstValidationError('문자열이 필요합니다', `${path}.${key}`);
+    }
+    return value;
+  }
+
+  private readNullableString(obj: JsonRecord, key: string, path: string): string | null {
+    return obj[key] === null ? null : this.readString(obj, key, path);
+  }
+
+  private readNumber(obj: JsonRecord, key: string, path: string): number {
+    const value = obj[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new AstValidationError('유한한 숫자가 필요합니다', `${path}.${key}`);
+    }
+    return value;
+  }
+
+  private readBoolean(obj: JsonRecord, key: string, path: string): boolean {
+    const value = obj[key];
+    if (typeof value !== 'boolean') {
+      throw new AstValidationError('boolean이 필요합니다', `${path}.${key}`);
+    }
+    return value;
+  }
+
+  private readEnum<T extends string>(obj: JsonRecord, key: string, values: T[], path: string): T {
+    const value = obj[key];
+    if (!values.includes(value as T)) {
+      throw new AstValidationError(`${values.join(', ')} 중 하나가 필요합니다`, `${path}.${key}`);
+    }
+    return value as T;
+  }
+
+  /**
+   * 단순 값 (관계 인자, HAS 값, 쿼리 대상 값): 문자열, 숫자, boolean, null
+   */
+  private readScalar(value: unknown, path: string): string | number | boolean | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    throw new AstValidationError('값은 문자열, 숫자, boolean, null 중 하나여야 합니다', path);
+  }
+}
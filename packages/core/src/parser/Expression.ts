@@ -1,3 +1,5 @@
+import { SourceSpan, copySpan } from '../tokenizer/Token.js';
+
 /**
  * 이항 연산자
  */
@@ -16,6 +18,7 @@ export enum BinaryOperator {
   GreaterThan = 'GreaterThan',
   LessEqual = 'LessEqual',
   GreaterEqual = 'GreaterEqual',
+  Contains = 'Contains',
 
   // 논리
   And = 'And',
@@ -31,13 +34,21 @@ export enum UnaryOperator {
 }
 
 /**
- * 표현식 기본 인터페이스
+ * 집계 함수
  */
-interface BaseExpression {
-  readonly line: number;
-  readonly column: number;
+export enum AggregateFunction {
+  Count = 'Count',
+  Sum = 'Sum',
+  Avg = 'Avg',
+  Min = 'Min',
+  Max = 'Max',
 }
 
+/**
+ * 표현식 기본 인터페이스
+ */
+interface BaseExpression extends SourceSpan {}
+
 /**
  * 숫자 리터럴: 100, 3.14
  */
@@ -107,6 +118,53 @@ export interface RandomExpression extends BaseExpression {
   readonly max: Expression;
 }
 
+/**
+ * 보간 문자열: "HP: {Player.HP}"
+ * parts는 문자열 조각(string)과 {} 안의 표현식이 순서대로 들어 있다.
+ */
+export interface InterpolationExpression extends BaseExpression {
+  readonly kind: 'interpolation';
+  readonly parts: (string | Expression)[];
+}
+
+/**
+ * 인덱스 표현식: Alice.TRUSTS[Bob]
+ */
+export interface IndexExpression extends BaseExpression {
+  readonly kind: 'index';
+  readonly object: Expression;
+  readonly index: Expression;
+}
+
+/**
+ * 리스트 리터럴: ["brave", "tired"]
+ */
+export interface ListExpression extends BaseExpression {
+  readonly kind: 'list';
+  readonly elements: Expression[];
+}
+
+/**
+ * 함수 호출: CalcDamage(Player, Goblin)
+ */
+export interface CallExpression extends BaseExpression {
+  readonly kind: 'call';
+  readonly callee: string;
+  readonly args: Expression[];
+}
+
+/**
+ * 집계: COUNT Monster, SUM Gold OF ?party, MAX HP OF Monster
+ * source는 타입 이름 또는 (isQuery이면) 쿼리 변수 이름. COUNT는 property가 null이다.
+ */
+export interface AggregateExpression extends BaseExpression {
+  readonly kind: 'aggregate';
+  readonly func: AggregateFunction;
+  readonly property: string | null;
+  readonly source: string;
+  readonly isQuery: boolean;
+}
+
 /**
  * 모든 표현식 타입의 Union
  */
@@ -118,60 +176,114 @@ export type Expression =
   | BinaryExpression
   | UnaryExpression
   | GroupingExpression
-  | RandomExpression;
+  | RandomExpression
+  | InterpolationExpression
+  | IndexExpression
+  | ListExpression
+  | CallExpression
+  | AggregateExpression;
 
-// 표현식 생성 헬퍼 함수들
-export function createNumberExpr(value: number, line: number, column: number): NumberExpression {
-  return { kind: 'number', value, line, column };
+// 표현식 생성 헬퍼 함수들 (범위는 SourceSpan으로 받는다, 이전의 line/column 형태는 없음)
+export function createNumberExpr(value: number, span: SourceSpan): NumberExpression {
+  return { kind: 'number', value, ...copySpan(span) };
 }
 
-export function createStringExpr(value: string, line: number, column: number): StringExpression {
-  return { kind: 'string', value, line, column };
+export function createStringExpr(value: string, span: SourceSpan): StringExpression {
+  return { kind: 'string', value, ...copySpan(span) };
 }
 
-export function createIdentifierExpr(name: string, line: number, column: number): IdentifierExpression {
-  return { kind: 'identifier', name, line, column };
+export function createIdentifierExpr(name: string, span: SourceSpan): IdentifierExpression {
+  return { kind: 'identifier', name, ...copySpan(span) };
 }
 
 export function createPropertyAccessExpr(
   object: Expression,
   property: string,
-  line: number,
-  column: number
+  span: SourceSpan
 ): PropertyAccessExpression {
-  return { kind: 'propertyAccess', object, property, line, column };
+  return { kind: 'propertyAccess', object, property, ...copySpan(span) };
 }
 
 export function createBinaryExpr(
   left: Expression,
   operator: BinaryOperator,
   right: Expression,
-  line: number,
-  column: number
+  span: SourceSpan
 ): BinaryExpression {
-  return { kind: 'binary', left, operator, right, line, column };
+  return { kind: 'binary', left, operator, right, ...copySpan(span) };
 }
 
 export function createUnaryExpr(
   operator: UnaryOperator,
   operand: Expression,
-  line: number,
-  column: number
+  span: SourceSpan
 ): UnaryExpression {
-  return { kind: 'unary', operator, operand, line, column };
+  return { kind: 'unary', operator, operand, ...copySpan(span) };
 }
 
-export function createGroupingExpr(inner: Expression, line: number, column: number): GroupingExpression {
-  return { kind: 'grouping', inner, line, column };
+export function createGroupingExpr(inner: Expression, span: SourceSpan): GroupingExpression {
+  return { kind: 'grouping', inner, ...copySpan(span) };
 }
 
 export function createRandomExpr(
   min: Expression,
   max: Expression,
-  line: number,
-  column: number
+  span: SourceSpan
 ): RandomExpression {
-  return { kind: 'random', min, max, line, column };
+  return { kind: 'random', min, max, ...copySpan(span) };
+}
+
+export function createInterpolationExpr(
+  parts: (string | Expression)[],
+  span: SourceSpan
+): InterpolationExpression {
+  return { kind: 'interpolation', parts, ...copySpan(span) };
+}
+
+export function createIndexExpr(object: Expression, index: Expression, span: SourceSpan): IndexExpression {
+  return { kind: 'index', object, index, ...copySpan(span) };
+}
+
+export function createListExpr(elements: Expression[], span: SourceSpan): ListExpression {
+  return { kind: 'list', elements, ...copySpan(span) };
+}
+
+export function createCallExpr(callee: string, args: Expression[], span: SourceSpan): CallExpression {
+  return { kind: 'call', callee, args, ...copySpan(span) };
+}
+
+export function createAggregateExpr(
+  func: AggregateFunction,
+  property: string | null,
+  source: string,
+  isQuery: boolean,
+  span: SourceSpan
+): AggregateExpression {
+  return { kind: 'aggregate', func, property, source, isQuery, ...copySpan(span) };
+}
+
+/**
+ * 집계 표현식의 소스 표기: COUNT Monster, SUM Gold OF ?party
+ */
+export function aggregateToString(expr: AggregateExpression): string {
+  const source = expr.isQuery ? `?${expr.source}` : expr.source;
+  const func = expr.func.toUpperCase();
+  return expr.property === null ? `${func} ${source}` : `${func} ${expr.property} OF ${source}`;
+}
+
+/**
+ * 문자열 값을 이스케이프하여 따옴표로 감싼다
+ */
+export function quoteString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+    .replace(/\{/g, '\\{')
+    .replace(/\}/g, '\\}');
+  return `"${escaped}"`;
 }
 
 /**
@@ -182,7 +294,7 @@ export function expressionToString(expr: Expression): string {
     case 'number':
       return String(expr.value);
     case 'string':
-      return `"${expr.value}"`;
+      return quoteString(expr.value);
     case 'identifier':
       return expr.name;
     case 'propertyAccess':
@@ -195,5 +307,19 @@ export function expressionToString(expr: Expression): string {
       return `(${expressionToString(expr.inner)})`;
     case 'random':
       return `RANDOM ${expressionToString(expr.min)} ${expressionToString(expr.max)}`;
+    case 'interpolation': {
+      const inner = expr.parts
+        .map((part) => (typeof part === 'string' ? quoteString(part).slice(1, -1) : `{${expressionToString(part)}}`))
+        .join('');
+      return `"${inner}"`;
+    }
+    case 'index':
+      return `${expressionToString(expr.object)}[${expressionToString(expr.index)}]`;
+    case 'list':
+      return `[${expr.elements.map(expressionToString).join(', ')}]`;
+    case 'call':
+      return `${expr.callee}(${expr.args.map(expressionToString).join(', ')})`;
+    case 'aggregate':
+      return aggregateToString(expr);
   }
 }
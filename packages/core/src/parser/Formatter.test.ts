@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../tokenizer/Tokenizer.js';
+import { Parser } from './Parser.js';
+import { Formatter } from './Formatter.js';
+import { astToJSON } from './AstJson.js';
+import { Statement } from './Statement.js';
+
+function parse(source: string): Statement[] {
+  return new Parser(new Tokenizer(source).tokenize()).parse();
+}
+
+function format(source: string): string {
+  const tokenizer = new Tokenizer(source);
+  const statements = new Parser(tokenizer.tokenize()).parse();
+  return new Formatter({ comments: tokenizer.comments }).format(statements);
+}
+
+const SAMPLES: Record<string, string> = {
+  '기본 문장': `// header
+player is entity   // trailing
+Player HAS HP 100
+Player HAS Name "Bob Smith"
+"HP: {Player.HP} \\"q\\" \\{x\\}" PRINT
+(-a + NOT b) print`,
+  '블록': `Player WHEN (HP > 50 AND (HP < 200 OR Name == "x")) DO
+  chance (HP / 2) do
+    Player print
+  else do
+    Player print
+  end
+else DO
+  Player LOSES IS Entity
+END
+WHILE (Hero.HP > 0) DO
+  Hero HAS HP (Hero.HP - 2)
+END
+REPEAT 3 DO
+  "hi" PRINT
+END`,
+  '관계와 변수': `Attack IS RELATION
+Attack HAS attacker (Node)
+Attack DO
+  attacker.HP print
+END
+Attack LOSES DO
+  attacker LOSES HP
+END
+FRIEND_OF IS SYMMETRIC
+Alice FRIEND_OF Bob WITH Since 2020
+Alice LOSES FRIEND_OF Bob
+LET total = 0
+Monster EACH m DO
+  SET total = total + m.HP
+END`,
+  '함수': `FUNCTION Fact(n) DO
+  Player WHEN (n <= 1) DO
+    RETURN 1
+  END
+  RETURN n * Fact(n - 1)
+END
+Fact(5) PRINT`,
+  '쿼리, 규칙, 트리거': `?m IS Monster ORDER BY ?m.HP DESC, ?m LIMIT 2 OFFSET 1
+?x IS Monster OR ?x LOCATED_IN Cave DISTINCT
+?a NEAR ?b AND NOT ?a IS Undead
+RULE ?x IS Undead WHEN ?x IS Monster AND ?x HAS HP 0
+ON Monster.HP CHANGES AS m DO
+  m PRINT
+END
+ON ?x IS Dead DO
+  x LOSES Loot
+END`,
+};
+
+describe('Formatter', () => {
+  for (const [name, source] of Object.entries(SAMPLES)) {
+    it(`${name}: 다시 파싱하면 같은 AST가 된다`, () => {
+      const formatted = format(source);
+      expect(astToJSON(parse(formatted), { spans: false })).toEqual(astToJSON(parse(source), { spans: false }));
+    });
+
+    it(`${name}: 정리된 코드를 다시 정리해도 바뀌지 않는다`, () => {
+      const formatted = format(source);
+      expect(format(formatted)).toBe(formatted);
+    });
+  }
+
+  it('키워드를 대문자로, 들여쓰기를 표준으로 맞춘다', () => {
+    expect(format('player is entity\nx when (HP > 1) do\n      x print\nend')).toBe(
+      'player IS entity\nx WHEN (HP > 1) DO\n  x PRINT\nEND\n'
+    );
+  });
+
+  it('주석과 빈 줄을 보존한다', () => {
+    expect(format('// a\nX PRINT  // b\n\n\nY PRINT')).toBe('// a\nX PRINT // b\n\nY PRINT\n');
+  });
+});
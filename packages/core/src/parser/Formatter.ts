@@ -0,0 +1,512 @@
+import { SourceComment } from '../tokenizer/Token.js';
+import { TokenType } from '../tokenizer/TokenType.js';
+import { Tokenizer, TokenizerError } from '../tokenizer/Tokenizer.js';
+import { Expression, BinaryOperator, UnaryOperator, quoteString, aggregateToString } from './Expression.js';
+import {
+  Statement,
+  RelationStatement,
+  WhenExpressionStatement,
+  EachStatement,
+  OnStatement,
+  EachSource,
+  LosesType,
+  DebugTarget,
+  queryConditionToString,
+  queryModifiersToString,
+} from './Statement.js';
+
+/**
+ * 포매터 옵션
+ */
+export interface FormatterOptions {
+  /** 들여쓰기 한 단계 (기본: 공백 2칸) */
+  indent?: string;
+  /** 보존할 주석 (Tokenizer.comments) */
+  comments?: readonly SourceComment[];
+}
+
+/**
+ * 이항 연산자의 소스 표기
+ */
+const BINARY_OPERATOR_SYMBOLS: Record<BinaryOperator, string> = {
+  [BinaryOperator.Add]: '+',
+  [BinaryOperator.Subtract]: '-',
+  [BinaryOperator.Multiply]: '*',
+  [BinaryOperator.Divide]: '/',
+  [BinaryOperator.Modulo]: '%',
+  [BinaryOperator.Equal]: '==',
+  [BinaryOperator.NotEqual]: '!=',
+  [BinaryOperator.LessThan]: '<',
+  [BinaryOperator.GreaterThan]: '>',
+  [BinaryOperator.LessEqual]: '<=',
+  [BinaryOperator.GreaterEqual]: '>=',
+  [BinaryOperator.Contains]: 'CONTAINS',
+  [BinaryOperator.And]: 'AND',
+  [BinaryOperator.Or]: 'OR',
+};
+
+/**
+ * DEBUG 대상의 소스 표기
+ */
+const DEBUG_TARGET_NAMES: Record<DebugTarget, string> = {
+  [DebugTarget.Graph]: 'GRAPH',
+  [DebugTarget.Tokens]: 'TOKENS',
+  [DebugTarget.Ast]: 'AST',
+};
+
+/**
+ * Song 소스 포매터
+ * AST를 일관된 들여쓰기와 대문자 키워드를 가진 소스 코드로 되돌린다.
+ * 출력을 다시 파싱하면 위치 정보를 제외하고 같은 AST가 나온다.
+ */
+export class Formatter {
+  private readonly indentUnit: string;
+  private readonly comments: SourceComment[];
+  private readonly lines: string[] = [];
+
+  // 마지막으로 출력한 요소의 원본 줄 (빈 줄 보존용)
+  private lastSourceLine: number | null = null;
+
+  constructor(options: FormatterOptions = {}) {
+    this.indentUnit = options.indent ?? '  ';
+    this.comments = [...(options.comments ?? [])].sort((a, b) => a.offset - b.offset);
+  }
+
+  format(statements: Statement[]): string {
+    this.emitBlock(statements, 0, Infinity);
+
+    if (this.lines.length === 0) {
+      return '';
+    }
+    return this.lines.join('\n') + '\n';
+  }
+
+  // 문장 출력
+
+  /**
+   * 문장 목록과 그 사이/뒤의 주석을 출력한다. end 이전의 주석까지 소비한다.
+   */
+  private emitBlock(statements: Statement[], depth: number, end: number): void {
+    this.lastSourceLine = null;
+
+    for (const stmt of statements) {
+      this.emitCommentsBefore(stmt.offset, depth);
+      this.emitBlankLineBefore(stmt.line);
+      this.emitStatement(stmt, depth);
+      this.emitTrailingComment(stmt.endLine, Infinity);
+    }
+
+    this.emitCommentsBefore(end, depth);
+  }
+
+  private emitStatement(stmt: Statement, depth: number): void {
+    switch (stmt.kind) {
+      case 'doBlock':
+        this.emitHeader(`${stmt.subject}${stmt.undo ? ' LOSES' : ''} DO`, depth, stmt.line, stmt.body[0]?.offset ?? stmt.endOffset);
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      case 'each':
+        this.emitHeader(`${this.formatEachHeader(stmt)} DO`, depth, stmt.line, stmt.body[0]?.offset ?? stmt.endOffset);
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      case 'when': {
+        // 조건 문장 뒤에 WHEN DO를 붙인다 (조건이 블록이면 END 뒤)
+        this.emitStatement(stmt.condition, depth);
+        this.lines[this.lines.length - 1] += ' WHEN DO';
+        this.emitTrailingComment(stmt.condition.endLine, stmt.body[0]?.offset ?? stmt.endOffset);
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      }
+      case 'whenExpression':
+        this.emitWhenExpression(stmt, depth);
+        break;
+      case 'all': {
+        if (stmt.body === null) {
+          this.emitLine(this.formatSimpleStatement(stmt), depth);
+          break;
+        }
+        const target = stmt.queryVariable !== null ? `?${stmt.queryVariable}` : stmt.typeName;
+        const binding = stmt.binding !== null ? ` AS ${stmt.binding}` : '';
+        this.emitHeader(`ALL ${target}${binding} DO`, depth, stmt.line, stmt.body[0]?.offset ?? stmt.endOffset);
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      }
+      case 'chance': {
+        const percent =
+          stmt.percent.kind === 'number' ? this.formatExpression(stmt.percent) : `(${this.formatExpression(stmt.percent)})`;
+        this.emitHeader(`CHANCE ${percent} DO`, depth, stmt.line, stmt.body[0]?.offset ?? stmt.endOffset);
+        this.emitBlock(stmt.body, depth + 1, stmt.elseBody?.[0]?.offset ?? stmt.endOffset);
+        if (stmt.elseBody !== null) {
+          this.emitLine('ELSE DO', depth);
+          this.emitBlock(stmt.elseBody, depth + 1, stmt.endOffset);
+        }
+        this.emitLine('END', depth);
+        break;
+      }
+      case 'while':
+        this.emitHeader(
+          `WHILE (${this.formatExpression(stmt.condition)}) DO`,
+          depth,
+          stmt.line,
+          stmt.body[0]?.offset ?? stmt.endOffset
+        );
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      case 'on':
+        this.emitHeader(this.formatTriggerHeader(stmt), depth, stmt.line, stmt.body[0]?.offset ?? stmt.endOffset);
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      case 'function':
+        this.emitHeader(
+          `FUNCTION ${stmt.name}(${stmt.parameters.join(', ')}) DO`,
+          depth,
+          stmt.line,
+          stmt.body[0]?.offset ?? stmt.endOffset
+        );
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      case 'repeat': {
+        const count = stmt.count.kind === 'number' ? this.formatExpression(stmt.count) : `(${this.formatExpression(stmt.count)})`;
+        this.emitHeader(`REPEAT ${count} DO`, depth, stmt.line, stmt.body[0]?.offset ?? stmt.endOffset);
+        this.emitBlockEnd(stmt.body, depth, stmt);
+        break;
+      }
+      default:
+        this.emitLine(this.formatSimpleStatement(stmt), depth);
+        break;
+    }
+
+    this.lastSourceLine = stmt.endLine;
+  }
+
+  private emitWhenExpression(stmt: WhenExpressionStatement, depth: number): void {
+    this.emitHeader(
+      `${stmt.subject} WHEN (${this.formatExpression(stmt.condition)}) DO`,
+      depth,
+      stmt.line,
+      stmt.body[0]?.offset ?? stmt.endOffset
+    );
+
+    let current: WhenExpressionStatement = stmt;
+    for (;;) {
+      const next = current.elseWhen;
+      this.emitBlock(current.body, depth + 1, next?.offset ?? current.elseBody?.[0]?.offset ?? stmt.endOffset);
+
+      if (next !== null) {
+        this.emitHeader(
+          `ELSE WHEN (${this.formatExpression(next.condition)}) DO`,
+          depth,
+          next.line,
+          next.body[0]?.offset ?? next.endOffset
+        );
+        current = next;
+        continue;
+      }
+
+      if (current.elseBody !== null) {
+        this.emitLine('ELSE DO', depth);
+        this.emitBlock(current.elseBody, depth + 1, stmt.endOffset);
+      }
+      break;
+    }
+
+    this.emitLine('END', depth);
+  }
+
+  private emitHeader(text: string, depth: number, sourceLine: number, bodyOffset: number): void {
+    this.emitLine(text, depth);
+    this.emitTrailingComment(sourceLine, bodyOffset);
+  }
+
+  private emitBlockEnd(body: Statement[], depth: number, stmt: Statement): void {
+    this.emitBlock(body, depth + 1, stmt.endOffset);
+    this.emitLine('END', depth);
+  }
+
+  private formatSimpleStatement(stmt: Statement): string {
+    switch (stmt.kind) {
+      case 'relation':
+        return `${stmt.subject} ${this.formatRelationTail(stmt)}`;
+      case 'hasExpression':
+        return `${stmt.subject} HAS ${stmt.property} ${this.formatHasValue(stmt.valueExpression)}`;
+      case 'expressionPrint':
+        return `${this.formatSubjectExpression(stmt.subject)} PRINT`;
+      case 'expressionHas': {
+        const head = `${this.formatSubjectExpression(stmt.subject)} HAS ${stmt.property}`;
+        if (stmt.valueExpression !== null) {
+          return `${head} ${this.formatHasValue(stmt.valueExpression)}`;
+        }
+        if (stmt.value === null || stmt.value === undefined) {
+          return head;
+        }
+        return `${head} ${this.formatValue(stmt.value)}`;
+      }
+      case 'roleDefinition':
+        return `${stmt.subject} HAS ${stmt.roleName} (Node)`;
+      case 'can':
+        return `${stmt.subject} CAN ${stmt.ability}`;
+      case 'loses':
+        if (stmt.type === LosesType.Is) {
+          return `${stmt.subject} LOSES IS ${stmt.target}`;
+        }
+        return stmt.argument === null
+          ? `${stmt.subject} LOSES ${stmt.target}`
+          : `${stmt.subject} LOSES ${stmt.target} ${this.formatValue(stmt.argument)}`;
+      case 'debug':
+        return `DEBUG ${DEBUG_TARGET_NAMES[stmt.target]}`;
+      case 'all': {
+        const target = stmt.queryVariable !== null ? `?${stmt.queryVariable}` : stmt.typeName;
+        if (stmt.action === null || stmt.action.kind !== 'relation') {
+          return `ALL ${target}`;
+        }
+        return `ALL ${target} ${this.formatRelationTail(stmt.action)}`;
+      }
+      case 'query': {
+        let result = queryConditionToString(stmt.condition, (value) => this.formatValue(value));
+        if (stmt.whereCondition !== null) {
+          result += ` WHERE ${this.formatExpression(stmt.whereCondition)}`;
+        }
+        return result + queryModifiersToString(stmt, (expr) => this.formatExpression(expr));
+      }
+      case 'rule': {
+        const formatValue = (value: unknown) => this.formatValue(value);
+        let result = `RULE ${queryConditionToString(stmt.head, formatValue)} WHEN ${queryConditionToString(stmt.condition, formatValue)}`;
+        if (stmt.whereCondition !== null) {
+          result += ` WHERE ${this.formatExpression(stmt.whereCondition)}`;
+        }
+        return result;
+      }
+      case 'let':
+        return `LET ${stmt.name} = ${this.formatExpression(stmt.value)}`;
+      case 'set':
+        return `SET ${stmt.name} = ${this.formatExpression(stmt.value)}`;
+      case 'return':
+        return `RETURN ${this.formatExpression(stmt.value)}`;
+      default:
+        throw new Error(`블록 문장은 formatSimpleStatement로 출력할 수 없습니다: ${stmt.kind}`);
+    }
+  }
+
+  /**
+   * 관계 문장의 주어 뒤 부분: IS Type, HAS Prop Value, PRINT, LIKES Bob
+   */
+  private formatRelationTail(stmt: RelationStatement): string {
+    const relation = stmt.relation.toUpperCase();
+
+    switch (relation) {
+      case 'IS':
+        return `IS ${String(stmt.arguments[0])}`;
+      case 'HAS': {
+        const [property, ...values] = stmt.arguments;
+        return ['HAS', String(property), ...values.map((v) => this.formatValue(v))].join(' ');
+      }
+      case 'PRINT':
+        return 'PRINT';
+      default: {
+        const parts = [stmt.relation, ...stmt.arguments.map((a) => this.formatValue(a))];
+        if (stmt.attributes.length > 0) {
+          const attrs = stmt.attributes.map((attr) => `${attr.name} ${this.formatExpression(attr.value)}`);
+          parts.push(`WITH ${attrs.join(', ')}`);
+        }
+        return parts.join(' ');
+      }
+    }
+  }
+
+  /**
+   * EACH 머리: 순회 대상의 종류에 따라 DEEP, ?쿼리, 표현식 형태로
+   */
+  private formatEachHeader(stmt: EachStatement): string {
+    switch (stmt.source) {
+      case EachSource.Descendants:
+        return `${stmt.collection} EACH DEEP ${stmt.variable}`;
+      case EachSource.Query:
+        return `?${stmt.collection} EACH ${stmt.variable}`;
+      case EachSource.Expression:
+        return stmt.collectionExpression !== null
+          ? `${this.formatSubjectExpression(stmt.collectionExpression)} EACH ${stmt.variable}`
+          : `${stmt.collection} EACH ${stmt.variable}`;
+      default:
+        return `${stmt.collection} EACH ${stmt.variable}`;
+    }
+  }
+
+  /**
+   * ON 머리: 속성 변경 형태 또는 쿼리 조건과 WHERE
+   */
+  private formatTriggerHeader(stmt: OnStatement): string {
+    if (stmt.condition === null) {
+      const binding = stmt.binding !== null ? ` AS ${stmt.binding}` : '';
+      return `ON ${stmt.subject}.${stmt.property} CHANGES${binding} DO`;
+    }
+    const condition = queryConditionToString(stmt.condition, (value) => this.formatValue(value));
+    const where = stmt.whereCondition !== null ? ` WHERE ${this.formatExpression(stmt.whereCondition)}` : '';
+    return `ON ${condition}${where} DO`;
+  }
+
+  /**
+   * 단순 값: 숫자, 식별자로 쓸 수 있는 문자열은 그대로, 그 외 문자열은 따옴표
+   */
+  private formatValue(value: unknown): string {
+    if (typeof value === 'number') {
+      return formatNumber(value);
+    }
+
+    const text = String(value);
+    return isPlainIdentifier(text) ? text : quoteString(text);
+  }
+
+  // 표현식 출력
+
+  /**
+   * 문장 주어 위치의 표현식: 식별자 속성/인덱스 체인과 문자열은 그대로, 그 외는 괄호
+   */
+  private formatSubjectExpression(expr: Expression): string {
+    if ((expr.kind === 'propertyAccess' || expr.kind === 'index' || expr.kind === 'call') && this.isSubjectChain(expr)) {
+      return this.formatExpression(expr);
+    }
+    if (expr.kind === 'string' || expr.kind === 'interpolation') {
+      return this.formatExpression(expr);
+    }
+    return `(${this.formatExpression(expr)})`;
+  }
+
+  /**
+   * HAS 값 위치의 표현식: 보간 문자열은 그대로, 그 외는 괄호
+   */
+  private formatHasValue(expr: Expression): string {
+    if (expr.kind === 'interpolation' || expr.kind === 'list') {
+      return this.formatExpression(expr);
+    }
+    return `(${this.formatExpression(expr)})`;
+  }
+
+  /**
+   * RANDOM 인자 위치의 표현식: 숫자와 식별자 체인은 그대로, 그 외는 괄호
+   */
+  private formatRandomOperand(expr: Expression): string {
+    if (expr.kind === 'number' || this.isIdentifierChain(expr)) {
+      return this.formatExpression(expr);
+    }
+    return `(${this.formatExpression(expr)})`;
+  }
+
+  private isSubjectChain(expr: Expression): boolean {
+    if (expr.kind === 'identifier' || expr.kind === 'call') return true;
+    if (expr.kind === 'propertyAccess' || expr.kind === 'index') return this.isSubjectChain(expr.object);
+    return false;
+  }
+
+  private isIdentifierChain(expr: Expression): boolean {
+    if (expr.kind === 'identifier') return true;
+    if (expr.kind === 'propertyAccess') return this.isIdentifierChain(expr.object);
+    return false;
+  }
+
+  /**
+   * 표현식을 소스 표기로 변환한다.
+   * 파서가 괄호를 항상 grouping 노드로 남기므로 추가 괄호 없이 출력해도 같은 트리로 파싱된다.
+   */
+  formatExpression(expr: Expression): string {
+    switch (expr.kind) {
+      case 'number':
+        return formatNumber(expr.value);
+      case 'string':
+        return quoteString(expr.value);
+      case 'identifier':
+        return expr.name;
+      case 'propertyAccess':
+        return `${this.formatExpression(expr.object)}.${expr.property}`;
+      case 'binary':
+        return `${this.formatExpression(expr.left)} ${BINARY_OPERATOR_SYMBOLS[expr.operator]} ${this.formatExpression(expr.right)}`;
+      case 'unary':
+        return expr.operator === UnaryOperator.Not
+          ? `NOT ${this.formatExpression(expr.operand)}`
+          : `-${this.formatExpression(expr.operand)}`;
+      case 'grouping':
+        return `(${this.formatExpression(expr.inner)})`;
+      case 'random':
+        return `RANDOM ${this.formatRandomOperand(expr.min)} ${this.formatRandomOperand(expr.max)}`;
+      case 'index':
+        return `${this.formatExpression(expr.object)}[${this.formatExpression(expr.index)}]`;
+      case 'list':
+        return `[${expr.elements.map((e) => this.formatExpression(e)).join(', ')}]`;
+      case 'call':
+        return `${expr.callee}(${expr.args.map((e) => this.formatExpression(e)).join(', ')})`;
+      case 'aggregate':
+        return aggregateToString(expr);
+      case 'interpolation': {
+        const inner = expr.parts
+          .map((part) => (typeof part === 'string' ? quoteString(part).slice(1, -1) : `{${this.formatExpression(part)}}`))
+          .join('');
+        return `"${inner}"`;
+      }
+    }
+  }
+
+  // 줄과 주석
+
+  private emitLine(text: string, depth: number): void {
+    this.lines.push(this.indentUnit.repeat(depth) + text);
+  }
+
+  /**
+   * 원본에서 빈 줄로 떨어져 있던 요소 사이에는 빈 줄 하나를 유지한다
+   */
+  private emitBlankLineBefore(sourceLine: number): void {
+    if (this.lastSourceLine !== null && sourceLine > this.lastSourceLine + 1) {
+      this.lines.push('');
+    }
+  }
+
+  /**
+   * offset 이전에 있는 주석을 독립된 줄로 출력한다
+   */
+  private emitCommentsBefore(offset: number, depth: number): void {
+    while (this.comments.length > 0 && this.comments[0].offset < offset) {
+      const comment = this.comments.shift()!;
+      this.emitBlankLineBefore(comment.line);
+      this.emitLine(comment.text, depth);
+      this.lastSourceLine = comment.line;
+    }
+  }
+
+  /**
+   * 원본의 sourceLine 줄 끝에 있던 주석(before 이전)을 마지막 줄 뒤에 붙인다
+   */
+  private emitTrailingComment(sourceLine: number, before: number): void {
+    const comment = this.comments[0];
+    if (comment === undefined || comment.line !== sourceLine || comment.offset >= before) {
+      return;
+    }
+
+    this.comments.shift();
+    this.lines[this.lines.length - 1] += ` ${comment.text}`;
+  }
+}
+
+/**
+ * 숫자를 토크나이저가 읽을 수 있는 표기로 변환 (지수 표기 제외)
+ */
+function formatNumber(value: number): string {
+  const text = String(value);
+  if (!/e/i.test(text)) {
+    return text;
+  }
+  return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+}
+
+/**
+ * 따옴표 없이 식별자 하나로 토큰화되는 문자열인지 확인
+ */
+function isPlainIdentifier(text: string): boolean {
+  try {
+    const tokens = new Tokenizer(text).tokenize();
+    return tokens.length === 2 && tokens[0].type === TokenType.IDENTIFIER && tokens[0].lexeme === text;
+  } catch (error) {
+    if (error instanceof TokenizerError) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../tokenizer/Tokenizer.js';
+import { SourceSpan } from '../tokenizer/Token.js';
+import { Parser, ParseResult, ParserError } from './Parser.js';
+import { Statement } from './Statement.js';
+import { Expression, AggregateFunction } from './Expression.js';
+
+function parse(source: string): Statement[] {
+  return new Parser(new Tokenizer(source).tokenize()).parse();
+}
+
+function parseWithDiagnostics(source: string): ParseResult {
+  return new Parser(new Tokenizer(source).tokenize()).parseWithDiagnostics();
+}
+
+function subjects(result: ParseResult): string[] {
+  return result.statements.map((stmt) => ('subject' in stmt ? String(stmt.subject) : stmt.kind));
+}
+
+describe('Parser', () => {
+  describe('오류 복구', () => {
+    it('기본 모드는 첫 오류에서 멈춘다', () => {
+      expect(() => new Parser(new Tokenizer('Player HAS\nPlayer PRINT').tokenize()).parse()).toThrow(ParserError);
+    });
+
+    it('모든 문법 오류를 모으고 나머지 문장을 파싱한다', () => {
+      const result = parseWithDiagnostics('Player HAS\nPlayer PRINT\nX HAS HP (1 +\nY PRINT');
+      expect(result.errors.map((error) => [error.token.line, error.token.column])).toEqual([
+        [1, 11],
+        [3, 14],
+      ]);
+      expect(subjects(result)).toEqual(['Player', 'Y']);
+    });
+
+    it('DO 블록을 연 문장이 실패하면 블록의 END까지 건너뛴다', () => {
+      const result = parseWithDiagnostics('X WHEN (1 +) DO\n  X PRINT\nEND\nY PRINT');
+      expect(result.errors).toHaveLength(1);
+      expect(subjects(result)).toEqual(['Y']);
+    });
+
+    it('블록 본문의 오류는 그 문장만 뺀다', () => {
+      const result = parseWithDiagnostics('Player WHEN (HP > 1) DO\n  HAS\n  Player PRINT\nEND\nZ PRINT');
+      expect(result.errors.map((error) => error.token.line)).toEqual([2]);
+      expect(subjects(result)).toEqual(['Player', 'Z']);
+
+      const [when] = result.statements;
+      expect(when.kind === 'whenExpression' && when.body).toHaveLength(1);
+    });
+  });
+
+  describe('소스 범위', () => {
+    const SOURCE = 'Player HAS HP (10 + 2)\nX WHEN (HP > 1) DO\n  X PRINT\nEND';
+
+    function text(span: SourceSpan): string {
+      return SOURCE.slice(span.offset, span.endOffset);
+    }
+
+    it('문장과 표현식은 원문 범위를 가진다', () => {
+      const [has, when] = new Parser(new Tokenizer(SOURCE).tokenize()).parse();
+      expect(text(has)).toBe('Player HAS HP (10 + 2)');
+      expect(has.kind === 'hasExpression' && text(has.valueExpression)).toBe('10 + 2');
+
+      expect(text(when)).toBe('X WHEN (HP > 1) DO\n  X PRINT\nEND');
+      expect([when.line, when.column, when.endLine, when.endColumn]).toEqual([2, 1, 4, 4]);
+      expect(when.kind === 'whenExpression' && text(when.body[0])).toBe('X PRINT');
+    });
+  });
+
+  describe('문맥 키워드', () => {
+    function relations(source: string): string[] {
+      return parse(source).map((stmt) =>
+        stmt.kind === 'relation' ? [stmt.subject, stmt.relation, ...stmt.arguments].join(' ') : stmt.kind
+      );
+    }
+
+    it('WITH는 간선 속성 이름 앞에서만 키워드로 읽는다', () => {
+      expect(relations('Door HAS With 1\nAlice LIKES With\nWith IS Word')).toEqual([
+        'Door HAS With 1',
+        'Alice LIKES With',
+        'With IS Word',
+      ]);
+
+      const [trusts] = parse('Alice TRUSTS Bob with Level 3');
+      expect(trusts.kind === 'relation' && trusts.attributes.map((attr) => attr.name)).toEqual(['Level']);
+    });
+
+    it('CONTAINS는 피연산자 뒤에서만 연산자로 읽는다', () => {
+      expect(relations('Bag HAS Contains 2\nContains IS Word')).toEqual(['Bag HAS Contains 2', 'Contains IS Word']);
+      expect(parse('X HAS V (Bag.Tags contains Contains)')[0]).toMatchObject({
+        valueExpression: { operator: 'Contains', left: { property: 'Tags' }, right: { name: 'Contains' } },
+      });
+    });
+
+    it('AS는 변수 이름 앞에서만 바인딩으로 읽는다', () => {
+      expect(relations('Hero HAS As 1\nAs IS Word')).toEqual(['Hero HAS As 1', 'As IS Word']);
+      expect(parse('ALL Monster as m DO\n  m PRINT\nEND')[0]).toMatchObject({ kind: 'all', binding: 'm' });
+    });
+
+    it('WHILE과 REPEAT은 조건이나 횟수가 올 때만 반복문으로 읽는다', () => {
+      expect(relations('Loop HAS While 1\nWhile IS Word\nRepeat LIKES Song\nRepeat PRINT')).toEqual([
+        'Loop HAS While 1',
+        'While IS Word',
+        'Repeat LIKES Song',
+        'Repeat PRINT',
+      ]);
+      expect(relations('while (1) DO\nEND\nrepeat 2 DO\nEND\nREPEAT (1 + 1) DO\nEND')).toEqual([
+        'while',
+        'repeat',
+        'repeat',
+      ]);
+    });
+
+    it('LET과 SET은 이름 = 형태일 때만 변수 문장으로 읽는다', () => {
+      expect(relations('Player HAS Set 2\nSet IS Collection\nLet LIKES Bob')).toEqual([
+        'Player HAS Set 2',
+        'Set IS Collection',
+        'Let LIKES Bob',
+      ]);
+      expect(parse('let x = 1\nSET x = x + 1')).toMatchObject([
+        { kind: 'let', name: 'x' },
+        { kind: 'set', name: 'x' },
+      ]);
+    });
+
+    it('FUNCTION은 이름( 앞에서, RETURN은 주어로 쓰이지 않을 때만 키워드로 읽는다', () => {
+      expect(relations('Spell HAS Function 2\nFunction IS Role\nReturn HAS Fee 5\nReturn.Fee PRINT')).toEqual([
+        'Spell HAS Function 2',
+        'Function IS Role',
+        'Return HAS Fee 5',
+        'expressionPrint',
+      ]);
+      expect(parse('function F(n) DO\n  return n\nEND')).toMatchObject([
+        { kind: 'function', name: 'F', body: [{ kind: 'return', value: { name: 'n' } }] },
+      ]);
+    });
+
+    it('RULE은 결론 뒤에 WHEN이 있을 때만 규칙으로 읽는다', () => {
+      expect(relations('Game HAS Rule 3\nRule IS Text\nRule LIKES Bob')).toEqual([
+        'Game HAS Rule 3',
+        'Rule IS Text',
+        'Rule LIKES Bob',
+      ]);
+      expect(parse('rule ?x IS Weak WHEN ?x HAS HP 0')).toMatchObject([{ kind: 'rule', head: { relation: 'IS' } }]);
+    });
+
+    it('ON은 같은 줄이 DO로 끝날 때만 트리거로 읽는다', () => {
+      expect(relations('Door HAS On 1\nOn IS State\nOn LIKES Bob')).toEqual(['Door HAS On 1', 'On IS State', 'On LIKES Bob']);
+      expect(parse('on Door.On CHANGES as d DO\nEND\nON ?x IS Dead DO\nEND')).toMatchObject([
+        { kind: 'on', subject: 'Door', property: 'On', binding: 'd' },
+        { kind: 'on', condition: { relation: 'IS', target: 'Dead' } },
+      ]);
+    });
+  });
+
+  describe('집계', () => {
+    function value(source: string): Expression {
+      const [stmt] = parse(`X HAS V (${source})`);
+      if (stmt.kind !== 'hasExpression') throw new Error(stmt.kind);
+      return stmt.valueExpression.kind === 'grouping' ? stmt.valueExpression.inner : stmt.valueExpression;
+    }
+
+    it('OF 형태와 COUNT 대상을 집계로 읽는다', () => {
+      expect(value('MAX HP OF Monster')).toMatchObject({ kind: 'aggregate', func: AggregateFunction.Max, property: 'HP' });
+      expect(value('COUNT Monster')).toMatchObject({ kind: 'aggregate', source: 'Monster', isQuery: false });
+      expect(value('count ?m')).toMatchObject({ kind: 'aggregate', source: 'm', isQuery: true });
+      expect(value('MAX(1, 2)')).toMatchObject({ kind: 'call', callee: 'MAX' });
+    });
+
+    it('집계 문법이 아니면 같은 이름의 식별자로 읽는다', () => {
+      const [query] = parse('?m IS Monster ORDER BY Max DESC, Count ASC LIMIT 2');
+      expect(query.kind === 'query' && query.orderBy).toMatchObject([
+        { expression: { kind: 'identifier', name: 'Max' }, descending: true },
+        { expression: { kind: 'identifier', name: 'Count' }, descending: false },
+      ]);
+
+      const [where] = parse('?m IS Monster WHERE ?m.HP < Min ORDER BY ?m.HP');
+      expect(where.kind === 'query' && where.orderBy).toHaveLength(1);
+      expect(value('Max + Sum')).toMatchObject({ kind: 'binary', left: { name: 'Max' }, right: { name: 'Sum' } });
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { Token } from '../tokenizer/Token.js';
+import { Token, TemplatePart, SourceSpan, spanBetween, copySpan } from '../tokenizer/Token.js';
 import { TokenType } from '../tokenizer/TokenType.js';
 import {
   Expression,
@@ -12,12 +12,29 @@ import {
   createUnaryExpr,
   createGroupingExpr,
   createRandomExpr,
+  createInterpolationExpr,
+  createIndexExpr,
+  createListExpr,
+  createCallExpr,
+  createAggregateExpr,
+  AggregateFunction,
+  expressionToString,
 } from './Expression.js';
 import {
   Statement,
+  RelationAttribute,
   DebugTarget,
   LosesType,
+  EachSource,
   QueryPattern,
+  QueryClause,
+  QueryCondition,
+  createQueryClause,
+  createQueryLogical,
+  createQueryNot,
+  QueryModifiers,
+  QueryOrder,
+  createQueryOrder,
   createWildcardPattern,
   createVariablePattern,
   createRelationStmt,
@@ -34,9 +51,52 @@ import {
   createChanceStmt,
   createAllStmt,
   createEachStmt,
+  createWhileStmt,
+  createRepeatStmt,
+  createLetStmt,
+  createSetStmt,
+  createFunctionStmt,
+  createReturnStmt,
   createQueryStmt,
+  createRuleStmt,
+  createOnChangeStmt,
+  createOnMatchStmt,
 } from './Statement.js';
 
+/**
+ * 조건을 만족하는 모든 바인딩에서 값이 정해지는 쿼리 변수
+ * OR는 양쪽 모두에서 묶인 변수만, NOT 안의 변수는 묶이지 않는다.
+ */
+function boundQueryVariables(condition: QueryCondition): Set<string> {
+  switch (condition.kind) {
+    case 'clause': {
+      const names = new Set<string>();
+      if (condition.subject?.variableName) names.add(condition.subject.variableName);
+      if (condition.targetVariable !== null) names.add(condition.targetVariable);
+      return names;
+    }
+    case 'and':
+      return new Set([...boundQueryVariables(condition.left), ...boundQueryVariables(condition.right)]);
+    case 'or': {
+      const right = boundQueryVariables(condition.right);
+      return new Set([...boundQueryVariables(condition.left)].filter((name) => right.has(name)));
+    }
+    case 'not':
+      return new Set();
+  }
+}
+
+/**
+ * 집계 함수 이름 (예약어가 아니며, 뒤가 집계 문법일 때만 집계로 해석한다)
+ */
+const AGGREGATE_FUNCTIONS: ReadonlyMap<string, AggregateFunction> = new Map([
+  ['COUNT', AggregateFunction.Count],
+  ['SUM', AggregateFunction.Sum],
+  ['AVG', AggregateFunction.Avg],
+  ['MIN', AggregateFunction.Min],
+  ['MAX', AggregateFunction.Max],
+]);
+
 /**
  * 파서 오류
  */
@@ -50,6 +110,14 @@ export class ParserError extends Error {
   }
 }
 
+/**
+ * 오류 복구 모드 파싱 결과
+ */
+export interface ParseResult {
+  readonly statements: Statement[];
+  readonly errors: ParserError[];
+}
+
 /**
  * Song 언어의 파서
  */
@@ -57,6 +125,10 @@ export class Parser {
   private readonly tokens: Token[];
   private current = 0;
 
+  // 오류 복구 모드: 오류를 모으고 다음 문장부터 계속 파싱
+  private recover = false;
+  private readonly errors: ParserError[] = [];
+
   constructor(tokens: Token[]) {
     this.tokens = tokens;
   }
@@ -67,7 +139,7 @@ export class Parser {
     while (!this.isAtEnd()) {
       this.skipNewlines();
       if (!this.isAtEnd()) {
-        const stmt = this.parseStatement();
+        const stmt = this.parseStatementOrRecover();
         if (stmt !== null) {
           statements.push(stmt);
         }
@@ -77,6 +149,106 @@ export class Parser {
     return statements;
   }
 
+  /**
+   * 오류 복구 모드로 파싱한다.
+   * 첫 오류에서 멈추지 않고 NEWLINE/END 경계에서 다시 동기화하며,
+   * 모든 오류와 오류가 난 문장을 제외한 부분 AST를 돌려준다.
+   */
+  parseWithDiagnostics(): ParseResult {
+    this.recover = true;
+    const statements = this.parse();
+    return { statements, errors: [...this.errors] };
+  }
+
+  /**
+   * 단독 표현식 파싱 (보간 문자열의 {표현식} 등)
+   */
+  parseStandaloneExpression(): Expression {
+    const expr = this.parseExpression();
+
+    if (!this.isAtEnd()) {
+      throw new ParserError(`표현식 뒤에 예상치 못한 토큰 '${this.peek().lexeme}'`, this.peek());
+    }
+
+    return expr;
+  }
+
+  private parseStatementOrRecover(): Statement | null {
+    if (!this.recover) {
+      return this.parseStatement();
+    }
+
+    const start = this.current;
+    try {
+      return this.parseStatement();
+    } catch (error) {
+      if (!(error instanceof ParserError)) {
+        throw error;
+      }
+      this.errors.push(error);
+      this.synchronize(start);
+      return null;
+    }
+  }
+
+  /**
+   * 오류 후 다음 문장 경계(NEWLINE 또는 END)까지 토큰을 건너뛴다.
+   * 실패한 문장이 DO 블록을 열었다면 그 블록의 END까지 함께 건너뛴다.
+   */
+  private synchronize(start: number): void {
+    // 토큰을 하나도 소비하지 못했다면 무한 반복을 막기 위해 하나는 건너뛴다
+    if (this.current === start && !this.isAtEnd()) {
+      this.advance();
+    }
+
+    let depth = 0;
+    for (let i = start; i < this.current; i++) {
+      depth = Math.max(0, depth + this.blockDepthDelta(this.tokens[i].type));
+    }
+
+    while (!this.isAtEnd()) {
+      if (depth === 0 && (this.check(TokenType.NEWLINE) || this.check(TokenType.END))) {
+        return;
+      }
+      depth = Math.max(0, depth + this.blockDepthDelta(this.advance().type));
+    }
+  }
+
+  /**
+   * 블록 깊이 변화: DO는 열고 END는 닫는다.
+   * ELSE는 현재 본문을 닫고 뒤따르는 DO가 같은 블록을 이어가므로 -1.
+   */
+  private blockDepthDelta(type: TokenType): number {
+    switch (type) {
+      case TokenType.DO:
+        return 1;
+      case TokenType.END:
+      case TokenType.ELSE:
+        return -1;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 블록 본문 파싱: 종료 토큰(END, ELSE)을 만날 때까지 문장을 모은다
+   */
+  private parseBlock(...terminators: TokenType[]): Statement[] {
+    this.skipNewlines();
+
+    const body: Statement[] = [];
+
+    while (!this.isAtEnd() && !terminators.some((type) => this.check(type))) {
+      const stmt = this.parseStatementOrRecover();
+      if (stmt !== null) {
+        body.push(stmt);
+      }
+      this.skipNewlines();
+    }
+
+    return body;
+  }
+
   private parseStatement(): Statement | null {
     // DEBUG 문장 처리
     if (this.check(TokenType.DEBUG)) {
@@ -88,6 +260,13 @@ export class Parser {
       return this.parseAll();
     }
 
+    // 쿼리 결과 순회: ?enemies EACH e DO ... END
+    if (this.check(TokenType.QUERY_VAR) && this.checkNext(TokenType.EACH)) {
+      const queryToken = this.advance();
+      this.advance(); // EACH
+      return this.parseEach(queryToken, queryToken.value as string, EachSource.Query);
+    }
+
     // 쿼리 문장 처리
     if (this.check(TokenType.QUESTION) || this.check(TokenType.QUERY_VAR)) {
       return this.parseQuery();
@@ -103,6 +282,50 @@ export class Parser {
       return this.parseChance();
     }
 
+    // 반복문 처리 (WHILE (조건), REPEAT 횟수 형태일 때만 키워드, 아니면 그런 이름의 노드)
+    if (this.checkWord('WHILE') && this.checkNext(TokenType.LPAREN)) {
+      return this.parseWhile();
+    }
+
+    if (this.checkWord('REPEAT') && (this.checkNext(TokenType.NUMBER) || this.checkNext(TokenType.LPAREN))) {
+      return this.parseRepeat();
+    }
+
+    // 지역 변수 선언 / 대입 (LET x = 형태일 때만 키워드, 아니면 Let이라는 이름의 노드)
+    if (
+      (this.checkWord('LET') || this.checkWord('SET')) &&
+      this.checkNext(TokenType.IDENTIFIER) &&
+      this.checkNext(TokenType.ASSIGN, 2)
+    ) {
+      return this.parseVariableAssignment();
+    }
+
+    // 함수 정의 / 반환 (FUNCTION 이름( 형태일 때만 키워드)
+    if (this.checkWord('FUNCTION') && this.checkNext(TokenType.IDENTIFIER) && this.checkNext(TokenType.LPAREN, 2)) {
+      return this.parseFunction();
+    }
+
+    // 추론 규칙 (같은 줄에 WHEN이 있을 때만 키워드, Rule LIKES Bob은 관계 문장)
+    if (this.checkWord('RULE') && !this.checkSubjectNext() && this.checkAheadInLine(TokenType.WHEN)) {
+      return this.parseRule();
+    }
+
+    // 트리거 (같은 줄이 DO로 본문을 열 때만 키워드, On LIKES Bob은 관계 문장)
+    if (this.checkWord('ON') && !this.checkSubjectNext() && this.checkAheadInLine(TokenType.DO)) {
+      return this.parseOn();
+    }
+
+    if (this.checkWord('RETURN') && !this.checkSubjectNext()) {
+      const returnToken = this.advance();
+      const value = this.parseExpression();
+      return createReturnStmt(value, this.spanFrom(returnToken));
+    }
+
+    // 문자열로 시작하는 표현식: "HP: {Player.HP}" PRINT
+    if (this.check(TokenType.STRING) || this.check(TokenType.TEMPLATE_STRING)) {
+      return this.parseExpressionSubjectStatement(this.parsePrimary());
+    }
+
     // 문장은 항상 IDENTIFIER로 시작
     if (!this.check(TokenType.IDENTIFIER)) {
       throw new ParserError(`문장은 식별자로 시작해야 합니다. '${this.peek().lexeme}' 발견`, this.peek());
@@ -110,17 +333,25 @@ export class Parser {
 
     const subjectToken = this.advance();
 
-    // 체인된 속성 접근 확인
-    let subjectExpr: Expression | null = null;
-    if (this.check(TokenType.DOT)) {
-      subjectExpr = createIdentifierExpr(subjectToken.lexeme, subjectToken.line, subjectToken.column);
-      while (this.check(TokenType.DOT)) {
+    // 함수 호출 주어: CalcDamage(Player, Goblin) PRINT
+    let subjectExpr: Expression | null = this.checkCallStart(subjectToken) ? this.parseCall(subjectToken) : null;
+
+    // 체인된 속성 접근 / 인덱스 확인
+    if (this.check(TokenType.DOT) || this.check(TokenType.LBRACKET)) {
+      if (subjectExpr === null) {
+        subjectExpr = createIdentifierExpr(subjectToken.lexeme, subjectToken);
+      }
+      while (this.check(TokenType.DOT) || this.check(TokenType.LBRACKET)) {
+        if (this.check(TokenType.LBRACKET)) {
+          subjectExpr = this.parseIndexSuffix(subjectExpr);
+          continue;
+        }
         this.advance(); // '.'
         if (!this.check(TokenType.IDENTIFIER)) {
           throw new ParserError(`'.' 뒤에 속성 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
         }
         const property = this.advance();
-        subjectExpr = createPropertyAccessExpr(subjectExpr, property.lexeme, subjectExpr.line, subjectExpr.column);
+        subjectExpr = createPropertyAccessExpr(subjectExpr, property.lexeme, spanBetween(subjectExpr, property));
       }
     }
 
@@ -142,7 +373,7 @@ export class Parser {
         stmt = this.parseDoBlock(subjectToken);
         break;
       case TokenType.PRINT:
-        stmt = createRelationStmt(subjectToken.lexeme, relation.lexeme, [], subjectToken.line, subjectToken.column);
+        stmt = createRelationStmt(subjectToken.lexeme, 'PRINT', [], this.spanFrom(subjectToken));
         break;
       case TokenType.CAN:
         stmt = this.parseCan(subjectToken);
@@ -157,7 +388,7 @@ export class Parser {
         stmt = this.parseIs(subjectToken);
         break;
       case TokenType.EACH:
-        stmt = this.parseEach(subjectToken);
+        stmt = this.parseEach(subjectToken, subjectToken.lexeme, EachSource.Children);
         break;
       case TokenType.WHEN:
         stmt = this.parseWhenExpression(subjectToken);
@@ -175,7 +406,7 @@ export class Parser {
   }
 
   private parseParenthesizedExpressionStatement(): Statement {
-    this.advance(); // '('
+    const lparen = this.advance(); // '('
     const expr = this.parseExpression();
 
     if (!this.check(TokenType.RPAREN)) {
@@ -183,18 +414,23 @@ export class Parser {
     }
     this.advance(); // ')'
 
-    return this.parseExpressionSubjectStatement(expr);
+    return this.parseExpressionSubjectStatement(expr, lparen);
   }
 
-  private parseExpressionSubjectStatement(subjectExpr: Expression): Statement {
-    if (!this.check(TokenType.PRINT) && !this.check(TokenType.HAS)) {
-      throw new ParserError(`표현식 주어 뒤에는 PRINT 또는 HAS가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+  private parseExpressionSubjectStatement(subjectExpr: Expression, start: SourceSpan = subjectExpr): Statement {
+    if (!this.check(TokenType.PRINT) && !this.check(TokenType.HAS) && !this.check(TokenType.EACH)) {
+      throw new ParserError(`표현식 주어 뒤에는 PRINT, HAS 또는 EACH가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
     }
 
     const relation = this.advance();
 
+    // 리스트 속성 또는 관계 대상 순회: Player.OWNS EACH item DO ... END
+    if (relation.type === TokenType.EACH) {
+      return this.parseEach(start, expressionToString(subjectExpr), EachSource.Expression, subjectExpr);
+    }
+
     if (relation.type === TokenType.PRINT) {
-      return createExpressionPrintStmt(subjectExpr, subjectExpr.line, subjectExpr.column);
+      return createExpressionPrintStmt(subjectExpr, this.spanFrom(start));
     }
 
     // HAS
@@ -212,16 +448,22 @@ export class Parser {
         throw new ParserError(`표현식 뒤에 ')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
       }
       this.advance(); // ')'
-      return createExpressionHasStmt(subjectExpr, property.lexeme, null, valueExpr, subjectExpr.line, subjectExpr.column);
+      return createExpressionHasStmt(subjectExpr, property.lexeme, null, valueExpr, this.spanFrom(start));
+    }
+
+    // 보간 문자열은 표현식으로 평가
+    if (this.check(TokenType.TEMPLATE_STRING)) {
+      const valueExpr = this.parsePrimary();
+      return createExpressionHasStmt(subjectExpr, property.lexeme, null, valueExpr, this.spanFrom(start));
     }
 
     // 일반 값
     if (this.checkEndOfStatement()) {
-      return createExpressionHasStmt(subjectExpr, property.lexeme, null, null, subjectExpr.line, subjectExpr.column);
+      return createExpressionHasStmt(subjectExpr, property.lexeme, null, null, this.spanFrom(start));
     }
 
     const value = this.parseSimpleValue();
-    return createExpressionHasStmt(subjectExpr, property.lexeme, value, null, subjectExpr.line, subjectExpr.column);
+    return createExpressionHasStmt(subjectExpr, property.lexeme, value, null, this.spanFrom(start));
   }
 
   private parseDebug(): Statement {
@@ -247,7 +489,7 @@ export class Parser {
         throw new ParserError(`알 수 없는 DEBUG 대상: ${targetToken.lexeme}`, targetToken);
     }
 
-    return createDebugStmt(target, debugToken.line, debugToken.column);
+    return createDebugStmt(target, this.spanFrom(debugToken));
   }
 
   private parseIs(subject: Token): Statement {
@@ -256,7 +498,7 @@ export class Parser {
     }
 
     const obj = this.advance();
-    return createRelationStmt(subject.lexeme, 'IS', [obj.lexeme], subject.line, subject.column);
+    return createRelationStmt(subject.lexeme, 'IS', [obj.lexeme], this.spanFrom(subject));
   }
 
   private parseHas(subject: Token): Statement {
@@ -277,7 +519,7 @@ export class Parser {
           throw new ParserError(`역할 정의에서 ')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
         }
         this.advance(); // ')'
-        return createRoleDefinitionStmt(subject.lexeme, property.lexeme, subject.line, subject.column);
+        return createRoleDefinitionStmt(subject.lexeme, property.lexeme, this.spanFrom(subject));
       }
 
       // 일반 표현식
@@ -288,16 +530,22 @@ export class Parser {
       }
       this.advance(); // ')'
 
-      return createHasExpressionStmt(subject.lexeme, property.lexeme, expr, subject.line, subject.column);
+      return createHasExpressionStmt(subject.lexeme, property.lexeme, expr, this.spanFrom(subject));
+    }
+
+    // 보간 문자열과 리스트 리터럴은 표현식으로 평가
+    if (this.check(TokenType.TEMPLATE_STRING) || this.check(TokenType.LBRACKET)) {
+      const expr = this.parsePrimary();
+      return createHasExpressionStmt(subject.lexeme, property.lexeme, expr, this.spanFrom(subject));
     }
 
     // 일반 값
     if (this.checkEndOfStatement()) {
-      return createRelationStmt(subject.lexeme, 'HAS', [property.lexeme], subject.line, subject.column);
+      return createRelationStmt(subject.lexeme, 'HAS', [property.lexeme], this.spanFrom(subject));
     }
 
     const value = this.parseSimpleValue();
-    return createRelationStmt(subject.lexeme, 'HAS', [property.lexeme, value], subject.line, subject.column);
+    return createRelationStmt(subject.lexeme, 'HAS', [property.lexeme, value], this.spanFrom(subject));
   }
 
   private parseCan(subject: Token): Statement {
@@ -306,10 +554,16 @@ export class Parser {
     }
 
     const ability = this.advance();
-    return createCanStmt(subject.lexeme, ability.lexeme, subject.line, subject.column);
+    return createCanStmt(subject.lexeme, ability.lexeme, this.spanFrom(subject));
   }
 
   private parseLoses(subject: Token): Statement {
+    // LOSES DO ... END - 관계를 잃을 때 실행할 본문
+    if (this.check(TokenType.DO)) {
+      this.advance(); // DO
+      return this.parseDoBlock(subject, true);
+    }
+
     // LOSES IS Parent 형태 확인
     if (this.check(TokenType.IS)) {
       this.advance(); // IS
@@ -317,7 +571,7 @@ export class Parser {
         throw new ParserError(`LOSES IS 뒤에 부모 노드 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
       }
       const parent = this.advance();
-      return createLosesStmt(subject.lexeme, parent.lexeme, LosesType.Is, subject.line, subject.column);
+      return createLosesStmt(subject.lexeme, parent.lexeme, LosesType.Is, this.spanFrom(subject));
     }
 
     // LOSES Target 형태
@@ -326,19 +580,22 @@ export class Parser {
     }
 
     const target = this.advance();
-    return createLosesStmt(subject.lexeme, target.lexeme, LosesType.Auto, subject.line, subject.column);
+
+    // LOSES Tags "brave" - 리스트 요소 제거
+    const argument = this.checkEndOfStatement() ? null : this.parseSimpleValue();
+    return createLosesStmt(subject.lexeme, target.lexeme, LosesType.Auto, this.spanFrom(subject), argument);
   }
 
   private parseCustomRelation(subject: Token, relation: Token): Statement {
     // 인자가 없는 경우
     if (this.checkEndOfStatement()) {
-      return createRelationStmt(subject.lexeme, relation.lexeme, [], subject.line, subject.column);
+      return createRelationStmt(subject.lexeme, relation.lexeme, [], this.spanFrom(subject));
     }
 
     // 모든 인자 수집
     const args: unknown[] = [];
 
-    while (!this.checkEndOfStatement()) {
+    while (!this.checkEndOfStatement() && !this.checkWithClause()) {
       if (this.check(TokenType.IDENTIFIER)) {
         args.push(this.advance().lexeme);
       } else if (this.check(TokenType.NUMBER)) {
@@ -350,50 +607,64 @@ export class Parser {
       }
     }
 
-    return createRelationStmt(subject.lexeme, relation.lexeme, args, subject.line, subject.column);
+    const attributes = this.checkWithClause() ? this.parseRelationAttributes() : [];
+
+    return createRelationStmt(subject.lexeme, relation.lexeme, args, this.spanFrom(subject), attributes);
   }
 
-  private parseDoBlock(subject: Token): Statement {
-    this.skipNewlines();
+  /**
+   * 간선 속성 시작 (WITH 뒤에 속성 이름이 와야 하며, 아니면 With라는 이름의 인자)
+   */
+  private checkWithClause(): boolean {
+    return this.checkWord('WITH') && this.checkNext(TokenType.IDENTIFIER);
+  }
 
-    const body: Statement[] = [];
+  /**
+   * 간선 속성: WITH Name Value, Name Value ...
+   */
+  private parseRelationAttributes(): RelationAttribute[] {
+    this.advance(); // WITH
 
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      const stmt = this.parseStatement();
-      if (stmt !== null) {
-        body.push(stmt);
+    const attributes: RelationAttribute[] = [];
+    while (true) {
+      if (!this.check(TokenType.IDENTIFIER)) {
+        throw new ParserError(`WITH 뒤에 속성 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
       }
-      this.skipNewlines();
+      const name = this.advance().lexeme;
+
+      if (this.checkEndOfStatement() || this.check(TokenType.COMMA)) {
+        throw new ParserError(`간선 속성 '${name}'에 값이 필요합니다`, this.peek());
+      }
+      attributes.push({ name, value: this.parseExpression() });
+
+      if (!this.check(TokenType.COMMA)) break;
+      this.advance(); // ','
     }
 
+    return attributes;
+  }
+
+  private parseDoBlock(subject: Token, undo = false): Statement {
+    const body = this.parseBlock(TokenType.END);
+
     if (!this.check(TokenType.END)) {
       throw new ParserError("DO 블록이 닫히지 않았습니다. 'END'가 필요합니다.", this.peek());
     }
 
     this.advance(); // END
 
-    return createDoBlockStmt(subject.lexeme, body, subject.line, subject.column);
+    return createDoBlockStmt(subject.lexeme, body, this.spanFrom(subject), undo);
   }
 
   private parseWhen(condition: Statement): Statement {
-    const whenToken = this.advance(); // WHEN
+    this.advance(); // WHEN
 
     if (!this.check(TokenType.DO)) {
       throw new ParserError(`WHEN 뒤에 'DO'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
     }
 
     this.advance(); // DO
-    this.skipNewlines();
-
-    const body: Statement[] = [];
-
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      const stmt = this.parseStatement();
-      if (stmt !== null) {
-        body.push(stmt);
-      }
-      this.skipNewlines();
-    }
+    const body = this.parseBlock(TokenType.END);
 
     if (!this.check(TokenType.END)) {
       throw new ParserError("WHEN 블록이 닫히지 않았습니다. 'END'가 필요합니다.", this.peek());
@@ -401,10 +672,10 @@ export class Parser {
 
     this.advance(); // END
 
-    return createWhenStmt(condition, body, whenToken.line, whenToken.column);
+    return createWhenStmt(condition, body, this.spanFrom(condition));
   }
 
-  private parseWhenExpression(subject: Token): Statement {
+  private parseWhenExpression(subject: Token, start: SourceSpan = subject): Statement {
     // (condition) 파싱
     if (!this.check(TokenType.LPAREN)) {
       throw new ParserError(`WHEN 뒤에 '('가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
@@ -424,18 +695,9 @@ export class Parser {
     }
 
     this.advance(); // DO
-    this.skipNewlines();
-
-    const body: Statement[] = [];
 
     // ELSE 또는 END까지 파싱
-    while (!this.check(TokenType.END) && !this.check(TokenType.ELSE) && !this.isAtEnd()) {
-      const stmt = this.parseStatement();
-      if (stmt !== null) {
-        body.push(stmt);
-      }
-      this.skipNewlines();
-    }
+    const body = this.parseBlock(TokenType.END, TokenType.ELSE);
 
     let elseBody: Statement[] | null = null;
     let elseWhen: Statement | null = null;
@@ -446,16 +708,15 @@ export class Parser {
 
       // ELSE WHEN (체이닝)
       if (this.check(TokenType.WHEN)) {
-        this.advance(); // WHEN
-        elseWhen = this.parseWhenExpression(subject);
+        const whenToken = this.advance(); // WHEN
+        elseWhen = this.parseWhenExpression(subject, whenToken);
         return createWhenExpressionStmt(
           subject.lexeme,
           condition,
           body,
           null,
           elseWhen as any,
-          subject.line,
-          subject.column
+          this.spanFrom(start)
         );
       }
 
@@ -465,26 +726,197 @@ export class Parser {
       }
 
       this.advance(); // DO
-      this.skipNewlines();
+      elseBody = this.parseBlock(TokenType.END);
+    }
 
-      elseBody = [];
+    if (!this.check(TokenType.END)) {
+      throw new ParserError("WHEN 블록이 닫히지 않았습니다. 'END'가 필요합니다.", this.peek());
+    }
 
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        const stmt = this.parseStatement();
-        if (stmt !== null) {
-          elseBody.push(stmt);
-        }
-        this.skipNewlines();
+    this.advance(); // END
+
+    return createWhenExpressionStmt(subject.lexeme, condition, body, elseBody, null, this.spanFrom(start));
+  }
+
+  /**
+   * WHILE 파싱: WHILE (조건) DO ... END
+   */
+  private parseWhile(): Statement {
+    const whileToken = this.advance(); // WHILE
+    this.advance(); // '(' (parseStatement에서 확인했다)
+    const condition = this.parseExpression();
+
+    if (!this.check(TokenType.RPAREN)) {
+      throw new ParserError(`WHILE 조건 뒤에 ')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+
+    this.advance(); // ')'
+
+    const body = this.parseDoEndBlock('WHILE');
+    return createWhileStmt(condition, body, this.spanFrom(whileToken));
+  }
+
+  /**
+   * REPEAT 파싱: REPEAT 3 DO ... END 또는 REPEAT (식) DO ... END
+   */
+  private parseRepeat(): Statement {
+    const repeatToken = this.advance(); // REPEAT
+
+    // 숫자 또는 '(' (parseStatement에서 확인했다)
+    let count: Expression;
+    if (this.check(TokenType.NUMBER)) {
+      const numToken = this.advance();
+      count = createNumberExpr(numToken.value as number, numToken);
+    } else {
+      this.advance(); // '('
+      count = this.parseExpression();
+      if (!this.check(TokenType.RPAREN)) {
+        throw new ParserError(`')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
       }
+      this.advance(); // ')'
+    }
+
+    const body = this.parseDoEndBlock('REPEAT');
+    return createRepeatStmt(count, body, this.spanFrom(repeatToken));
+  }
+
+  /**
+   * 함수 정의 파싱: FUNCTION 이름(매개변수, ...) DO ... END
+   */
+  private parseFunction(): Statement {
+    // 이름과 '('는 parseStatement에서 확인했다
+    const functionToken = this.advance(); // FUNCTION
+    const name = this.advance();
+    this.advance(); // '('
+    const parameters: string[] = [];
+
+    while (!this.check(TokenType.RPAREN)) {
+      if (!this.check(TokenType.IDENTIFIER)) {
+        throw new ParserError(`매개변수 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+      }
+
+      const param = this.advance();
+      if (parameters.includes(param.lexeme)) {
+        throw new ParserError(`매개변수 '${param.lexeme}'이(가) 중복되었습니다`, param);
+      }
+      parameters.push(param.lexeme);
+
+      if (!this.check(TokenType.COMMA)) break;
+      this.advance(); // ','
+    }
+
+    if (!this.check(TokenType.RPAREN)) {
+      throw new ParserError(`매개변수 목록 뒤에 ')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+
+    this.advance(); // ')'
+
+    const body = this.parseDoEndBlock('FUNCTION');
+    return createFunctionStmt(name.lexeme, parameters, body, this.spanFrom(functionToken));
+  }
+
+  /**
+   * 집계 함수 이름 뒤가 집계 문법인지 확인 (아니면 같은 이름의 식별자로 읽는다)
+   * SUM/AVG/MIN/MAX는 '속성 OF 대상', COUNT는 쿼리 변수나 타입 이름이 와야 한다.
+   * ORDER BY Max DESC처럼 뒤따르는 쿼리 후처리 단어는 COUNT의 대상으로 보지 않는다.
+   */
+  private checkAggregateStart(func: AggregateFunction): boolean {
+    if (func !== AggregateFunction.Count) {
+      return this.check(TokenType.IDENTIFIER) && this.checkNext(TokenType.OF);
+    }
+    if (this.check(TokenType.QUERY_VAR)) {
+      return true;
+    }
+    return (
+      this.check(TokenType.IDENTIFIER) && !this.checkWord('ASC') && !this.checkWord('DESC') && !this.checkQueryModifier()
+    );
+  }
+
+  /**
+   * 집계 파싱: COUNT 대상, SUM 속성 OF 대상 (대상은 타입 이름 또는 ?쿼리변수)
+   */
+  private parseAggregate(funcToken: Token, func: AggregateFunction): Expression {
+    let property: string | null = null;
+
+    // 속성 이름과 OF는 checkAggregateStart에서 확인했다
+    if (func !== AggregateFunction.Count) {
+      property = this.advance().lexeme;
+      this.advance(); // OF
+    }
+
+    if (this.check(TokenType.QUERY_VAR)) {
+      const queryToken = this.advance();
+      return createAggregateExpr(func, property, queryToken.value as string, true, spanBetween(funcToken, queryToken));
+    }
+
+    if (!this.check(TokenType.IDENTIFIER)) {
+      throw new ParserError(`집계 대상(타입 또는 쿼리 변수)이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+
+    const source = this.advance();
+    return createAggregateExpr(func, property, source.lexeme, false, spanBetween(funcToken, source));
+  }
+
+  /**
+   * 식별자 바로 뒤에 공백 없이 '('가 오면 함수 호출
+   */
+  private checkCallStart(name: Token): boolean {
+    return this.check(TokenType.LPAREN) && this.peek().offset === name.endOffset;
+  }
+
+  /**
+   * 함수 호출 인자 파싱: 이름(식, 식, ...)
+   */
+  private parseCall(name: Token): Expression {
+    this.advance(); // '('
+    const args: Expression[] = [];
+
+    while (!this.check(TokenType.RPAREN)) {
+      args.push(this.parseExpression());
+      if (!this.check(TokenType.COMMA)) break;
+      this.advance(); // ','
+    }
+
+    if (!this.check(TokenType.RPAREN)) {
+      throw new ParserError(`함수 인자 뒤에 ')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+
+    const rparen = this.advance();
+    return createCallExpr(name.lexeme, args, spanBetween(name, rparen));
+  }
+
+  /**
+   * LET / SET 파싱: LET x = 식, SET x = 식
+   */
+  private parseVariableAssignment(): Statement {
+    // 이름과 '='는 parseStatement에서 확인했다
+    const keyword = this.advance(); // LET | SET
+    const name = this.advance();
+    this.advance(); // '='
+    const value = this.parseExpression();
+
+    return keyword.lexeme.toUpperCase() === 'LET'
+      ? createLetStmt(name.lexeme, value, this.spanFrom(keyword))
+      : createSetStmt(name.lexeme, value, this.spanFrom(keyword));
+  }
+
+  /**
+   * 키워드 뒤의 DO ... END 본문 파싱
+   */
+  private parseDoEndBlock(keyword: string): Statement[] {
+    if (!this.check(TokenType.DO)) {
+      throw new ParserError(`${keyword} 뒤에 'DO'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
     }
 
+    this.advance(); // DO
+    const body = this.parseBlock(TokenType.END);
+
     if (!this.check(TokenType.END)) {
-      throw new ParserError("WHEN 블록이 닫히지 않았습니다. 'END'가 필요합니다.", this.peek());
+      throw new ParserError(`${keyword} 블록이 닫히지 않았습니다. 'END'가 필요합니다.`, this.peek());
     }
 
     this.advance(); // END
-
-    return createWhenExpressionStmt(subject.lexeme, condition, body, elseBody, null, subject.line, subject.column);
+    return body;
   }
 
   private parseChance(): Statement {
@@ -494,7 +926,7 @@ export class Parser {
     let percent: Expression;
     if (this.check(TokenType.NUMBER)) {
       const numToken = this.advance();
-      percent = createNumberExpr(numToken.value as number, numToken.line, numToken.column);
+      percent = createNumberExpr(numToken.value as number, numToken);
     } else if (this.check(TokenType.LPAREN)) {
       this.advance(); // '('
       percent = this.parseExpression();
@@ -512,17 +944,7 @@ export class Parser {
     }
 
     this.advance(); // DO
-    this.skipNewlines();
-
-    const body: Statement[] = [];
-
-    while (!this.check(TokenType.END) && !this.check(TokenType.ELSE) && !this.isAtEnd()) {
-      const stmt = this.parseStatement();
-      if (stmt !== null) {
-        body.push(stmt);
-      }
-      this.skipNewlines();
-    }
+    const body = this.parseBlock(TokenType.END, TokenType.ELSE);
 
     let elseBody: Statement[] | null = null;
 
@@ -535,17 +957,7 @@ export class Parser {
       }
 
       this.advance(); // DO
-      this.skipNewlines();
-
-      elseBody = [];
-
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        const stmt = this.parseStatement();
-        if (stmt !== null) {
-          elseBody.push(stmt);
-        }
-        this.skipNewlines();
-      }
+      elseBody = this.parseBlock(TokenType.END);
     }
 
     if (!this.check(TokenType.END)) {
@@ -554,7 +966,7 @@ export class Parser {
 
     this.advance(); // END
 
-    return createChanceStmt(percent, body, elseBody, chanceToken.line, chanceToken.column);
+    return createChanceStmt(percent, body, elseBody, this.spanFrom(chanceToken));
   }
 
   private parseAll(): Statement {
@@ -575,9 +987,33 @@ export class Parser {
       throw new ParserError(`ALL 뒤에 타입 이름 또는 쿼리 변수가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
     }
 
+    // AS 바인딩과 DO 본문: ALL Monster AS m DO ... END
+    let binding: string | null = null;
+    if (this.checkAsBinding()) {
+      this.advance(); // AS
+      if (!this.check(TokenType.IDENTIFIER)) {
+        throw new ParserError(`AS 뒤에 변수 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+      }
+      binding = this.advance().lexeme;
+
+      if (!this.check(TokenType.DO)) {
+        throw new ParserError(`ALL ... AS ${binding} 뒤에 'DO'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+      }
+    }
+
+    if (this.check(TokenType.DO)) {
+      this.advance(); // DO
+      const body = this.parseBlock(TokenType.END);
+      if (!this.check(TokenType.END)) {
+        throw new ParserError("ALL 블록이 닫히지 않았습니다. 'END'가 필요합니다.", this.peek());
+      }
+      this.advance(); // END
+      return createAllStmt(typeName, queryVariable, null, this.spanFrom(allToken), binding, body);
+    }
+
     // 뒤에 액션이 있는지 확인
     if (this.checkEndOfStatement()) {
-      return createAllStmt(typeName, queryVariable, null, allToken.line, allToken.column);
+      return createAllStmt(typeName, queryVariable, null, this.spanFrom(allToken));
     }
 
     // 액션 파싱
@@ -592,8 +1028,7 @@ export class Parser {
       type: TokenType.IDENTIFIER,
       lexeme: typeName,
       value: null,
-      line: allToken.line,
-      column: allToken.column,
+      ...copySpan(relation),
     };
 
     let action: Statement;
@@ -602,13 +1037,16 @@ export class Parser {
         action = this.parseHasForAll(typeToken2);
         break;
       case TokenType.PRINT:
-        action = createRelationStmt(typeName, relation.lexeme, [], allToken.line, allToken.column);
+        action = createRelationStmt(typeName, 'PRINT', [], this.spanFrom(relation));
         break;
-      default:
-        action = this.parseCustomRelationForAll(typeToken2, relation);
+      default: {
+        // 키워드 관계는 대문자로 통일 (IS, CAN 등)
+        const relationName = relation.type === TokenType.IDENTIFIER ? relation.lexeme : relation.type;
+        action = this.parseCustomRelationForAll(typeToken2, relationName);
+      }
     }
 
-    return createAllStmt(typeName, queryVariable, action, allToken.line, allToken.column);
+    return createAllStmt(typeName, queryVariable, action, this.spanFrom(allToken));
   }
 
   private parseHasForAll(typeName: Token): Statement {
@@ -619,33 +1057,52 @@ export class Parser {
     const property = this.advance();
 
     if (this.checkEndOfStatement()) {
-      return createRelationStmt(typeName.lexeme, 'HAS', [property.lexeme], typeName.line, typeName.column);
+      return createRelationStmt(typeName.lexeme, 'HAS', [property.lexeme], this.spanFrom(typeName));
     }
 
     const value = this.parseSimpleValue();
-    return createRelationStmt(typeName.lexeme, 'HAS', [property.lexeme, value], typeName.line, typeName.column);
+    return createRelationStmt(typeName.lexeme, 'HAS', [property.lexeme, value], this.spanFrom(typeName));
   }
 
-  private parseCustomRelationForAll(typeName: Token, relation: Token): Statement {
+  private parseCustomRelationForAll(typeName: Token, relation: string): Statement {
     if (this.checkEndOfStatement()) {
-      return createRelationStmt(typeName.lexeme, relation.lexeme, [], typeName.line, typeName.column);
+      return createRelationStmt(typeName.lexeme, relation, [], this.spanFrom(typeName));
     }
 
     if (!this.check(TokenType.IDENTIFIER) && !this.check(TokenType.NUMBER) && !this.check(TokenType.STRING)) {
       throw new ParserError(`객체가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
     }
 
-    const obj = this.advance();
+    const obj = this.parseSimpleValue();
 
     if (this.checkEndOfStatement()) {
-      return createRelationStmt(typeName.lexeme, relation.lexeme, [obj.lexeme], typeName.line, typeName.column);
+      return createRelationStmt(typeName.lexeme, relation, [obj], this.spanFrom(typeName));
     }
 
     const value = this.parseSimpleValue();
-    return createRelationStmt(typeName.lexeme, relation.lexeme, [obj.lexeme, value], typeName.line, typeName.column);
+    return createRelationStmt(typeName.lexeme, relation, [obj, value], this.spanFrom(typeName));
   }
 
-  private parseEach(subject: Token): Statement {
+  /**
+   * EACH 이후 파싱: [DEEP] 변수 DO ... END
+   * DEEP은 예약어가 아니며, 변수 이름 앞에 올 때만 모든 자손 순회로 해석한다.
+   */
+  private parseEach(
+    start: SourceSpan,
+    collection: string,
+    source: EachSource,
+    collectionExpression: Expression | null = null
+  ): Statement {
+    if (
+      source === EachSource.Children &&
+      this.check(TokenType.IDENTIFIER) &&
+      this.peek().lexeme.toUpperCase() === 'DEEP' &&
+      this.checkNext(TokenType.IDENTIFIER)
+    ) {
+      this.advance(); // DEEP
+      source = EachSource.Descendants;
+    }
+
     if (!this.check(TokenType.IDENTIFIER)) {
       throw new ParserError(`EACH 뒤에 변수 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
     }
@@ -657,17 +1114,7 @@ export class Parser {
     }
 
     this.advance(); // DO
-    this.skipNewlines();
-
-    const body: Statement[] = [];
-
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      const stmt = this.parseStatement();
-      if (stmt !== null) {
-        body.push(stmt);
-      }
-      this.skipNewlines();
-    }
+    const body = this.parseBlock(TokenType.END);
 
     if (!this.check(TokenType.END)) {
       throw new ParserError("EACH 블록이 닫히지 않았습니다. 'END'가 필요합니다.", this.peek());
@@ -675,31 +1122,289 @@ export class Parser {
 
     this.advance(); // END
 
-    return createEachStmt(subject.lexeme, variable.lexeme, body, subject.line, subject.column);
+    return createEachStmt(collection, variable.lexeme, body, this.spanFrom(start), source, collectionExpression);
   }
 
+  /**
+   * 쿼리 파싱: 절 [AND|OR 절 ...] [WHERE 조건]
+   * 절은 NOT과 괄호로 묶을 수 있고, AND가 OR보다 먼저 결합한다.
+   * 첫 절의 주어(? 또는 ?name)가 쿼리 결과 변수가 된다.
+   */
   private parseQuery(): Statement {
-    const queryToken = this.advance(); // ? or ?name
+    const start = this.peek();
+    const condition = this.parseQueryOr();
+
+    let first: QueryCondition = condition;
+    while (first.kind !== 'clause') {
+      first = first.kind === 'not' ? first.operand : first.left;
+    }
+
+    // WHERE 조건 확인
+    let whereCondition: Expression | null = null;
+    if (this.check(TokenType.WHERE)) {
+      this.advance(); // WHERE
+      whereCondition = this.parseQueryCondition();
+    }
+
+    const modifiers = this.parseQueryModifiers();
+
+    return createQueryStmt(
+      first.subject ?? createWildcardPattern(),
+      first.relation,
+      first.target,
+      first.targetValue,
+      whereCondition,
+      this.spanFrom(start),
+      condition,
+      modifiers
+    );
+  }
+
+  /**
+   * 규칙 파싱: RULE 결론절 WHEN 조건 [WHERE 식]
+   * 결론의 변수는 모두 조건의 (NOT 밖) 절에서 묶여야 한다.
+   */
+  private parseRule(): Statement {
+    const start = this.advance(); // RULE
+    const headToken = this.peek();
+    const head = this.parseQueryClause();
+
+    if (head.subject?.isWildcard) {
+      throw new ParserError('규칙 결론에는 ? 대신 이름 있는 변수가 필요합니다', headToken);
+    }
+    if (head.relation === 'CAN') {
+      throw new ParserError('규칙 결론은 IS, HAS 또는 관계여야 합니다', headToken);
+    }
+    if (head.target === null && head.targetVariable === null) {
+      throw new ParserError(`규칙 결론 ${head.relation}에는 대상이 필요합니다`, headToken);
+    }
+    if (head.relation === 'HAS' && (head.targetValue === null || head.targetValue === undefined)) {
+      throw new ParserError('규칙 HAS 결론에는 값이 필요합니다', headToken);
+    }
+
+    if (!this.check(TokenType.WHEN)) {
+      throw new ParserError(`규칙 결론 뒤에 WHEN이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+    this.advance(); // WHEN
+
+    const condition = this.parseQueryOr();
+
+    const bound = boundQueryVariables(condition);
+    for (const name of [head.subject?.variableName ?? null, head.targetVariable]) {
+      if (name !== null && !bound.has(name)) {
+        throw new ParserError(`규칙 결론의 ?${name}가 조건에서 묶이지 않습니다`, headToken);
+      }
+    }
+
+    let whereCondition: Expression | null = null;
+    if (this.check(TokenType.WHERE)) {
+      this.advance(); // WHERE
+      whereCondition = this.parseQueryCondition();
+    }
+
+    return createRuleStmt(head, condition, whereCondition, this.spanFrom(start));
+  }
+
+  /**
+   * 트리거 파싱
+   *   ON 노드.속성 CHANGES [AS 변수] DO ... END
+   *   ON 쿼리조건 [WHERE 식] DO ... END
+   * CHANGES는 예약어가 아니며 이 위치에서만 해석한다.
+   */
+  private parseOn(): Statement {
+    const start = this.advance(); // ON
+
+    if (this.check(TokenType.IDENTIFIER) && this.checkNext(TokenType.DOT)) {
+      const subject = this.advance().lexeme;
+      this.advance(); // '.'
+
+      if (!this.check(TokenType.IDENTIFIER)) {
+        throw new ParserError(`'.' 뒤에 속성 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+      }
+      const property = this.advance().lexeme;
+
+      if (!this.checkWord('CHANGES')) {
+        throw new ParserError(
+          `ON ${subject}.${property} 뒤에 CHANGES가 필요합니다. '${this.peek().lexeme}' 발견`,
+          this.peek()
+        );
+      }
+      this.advance(); // CHANGES
+
+      let binding: string | null = null;
+      if (this.checkAsBinding()) {
+        this.advance(); // AS
+        if (!this.check(TokenType.IDENTIFIER)) {
+          throw new ParserError(`AS 뒤에 변수 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+        }
+        binding = this.advance().lexeme;
+      }
+
+      const body = this.parseDoEndBlock('ON');
+      return createOnChangeStmt(subject, property, binding, body, this.spanFrom(start));
+    }
+
+    const condition = this.parseQueryOr();
 
-    // 쿼리 패턴 생성
-    const pattern: QueryPattern =
-      queryToken.type === TokenType.QUESTION
-        ? createWildcardPattern()
-        : createVariablePattern(queryToken.value as string);
+    let whereCondition: Expression | null = null;
+    if (this.check(TokenType.WHERE)) {
+      this.advance(); // WHERE
+      whereCondition = this.parseQueryCondition();
+    }
+
+    const body = this.parseDoEndBlock('ON');
+    return createOnMatchStmt(condition, whereCondition, body, this.spanFrom(start));
+  }
+
+  /**
+   * 쿼리 후처리 파싱: [DISTINCT] [ORDER BY 식 [ASC|DESC], ...] [LIMIT n] [OFFSET n]
+   * DISTINCT, ORDER, BY, ASC, DESC, LIMIT, OFFSET은 예약어가 아니며 쿼리 끝에서만 해석한다.
+   */
+  private parseQueryModifiers(): QueryModifiers {
+    let distinct = false;
+    if (this.checkWord('DISTINCT')) {
+      this.advance(); // DISTINCT
+      distinct = true;
+    }
+
+    const orderBy: QueryOrder[] = [];
+    if (this.checkWord('ORDER')) {
+      this.advance(); // ORDER
+      if (!this.checkWord('BY')) {
+        throw new ParserError(`ORDER 뒤에 BY가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+      }
+      this.advance(); // BY
+
+      for (;;) {
+        const expression = this.parseExpression();
+        let descending = false;
+        if (this.checkWord('ASC') || this.checkWord('DESC')) {
+          descending = this.advance().lexeme.toUpperCase() === 'DESC';
+        }
+        orderBy.push(createQueryOrder(expression, descending));
+
+        if (!this.check(TokenType.COMMA)) break;
+        this.advance(); // ','
+      }
+    }
+
+    const limit = this.checkWord('LIMIT') ? this.parseQueryCount() : null;
+    const skip = this.checkWord('OFFSET') ? this.parseQueryCount() : null;
+
+    return { distinct, orderBy, limit, skip };
+  }
+
+  /**
+   * LIMIT / OFFSET 뒤의 0 이상 정수
+   */
+  private parseQueryCount(): number {
+    const keyword = this.advance().lexeme.toUpperCase();
+    const token = this.peek();
+    if (!this.check(TokenType.NUMBER) || !Number.isInteger(token.value) || (token.value as number) < 0) {
+      throw new ParserError(`${keyword} 뒤에 0 이상의 정수가 필요합니다. '${token.lexeme}' 발견`, token);
+    }
+    this.advance();
+    return token.value as number;
+  }
+
+  /**
+   * 쿼리 후처리 절의 시작인지 확인 (절 대상이나 HAS 값으로 읽지 않기 위해)
+   */
+  private checkQueryModifier(): boolean {
+    if (this.checkWord('ORDER')) {
+      return this.checkNext(TokenType.IDENTIFIER) && this.tokens[this.current + 1].lexeme.toUpperCase() === 'BY';
+    }
+    if (this.checkWord('LIMIT') || this.checkWord('OFFSET')) {
+      return this.checkNext(TokenType.NUMBER);
+    }
+    if (this.checkWord('DISTINCT')) {
+      const next = this.tokens[this.current + 1];
+      return (
+        next.type === TokenType.NEWLINE ||
+        next.type === TokenType.EOF ||
+        next.type === TokenType.END ||
+        (next.type === TokenType.IDENTIFIER && ['ORDER', 'LIMIT', 'OFFSET'].includes(next.lexeme.toUpperCase()))
+      );
+    }
+    return false;
+  }
+
+  private parseQueryOr(): QueryCondition {
+    let condition = this.parseQueryAnd();
+    while (this.check(TokenType.OR)) {
+      this.advance(); // OR
+      condition = createQueryLogical('or', condition, this.parseQueryAnd());
+    }
+    return condition;
+  }
 
-    // 관계 타입 (IS, HAS, CAN)
-    if (!this.check(TokenType.IS) && !this.check(TokenType.HAS) && !this.check(TokenType.CAN)) {
-      throw new ParserError(`쿼리에서 IS, HAS, CAN 중 하나가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+  private parseQueryAnd(): QueryCondition {
+    let condition = this.parseQueryNot();
+    while (this.check(TokenType.AND)) {
+      this.advance(); // AND
+      condition = createQueryLogical('and', condition, this.parseQueryNot());
+    }
+    return condition;
+  }
+
+  private parseQueryNot(): QueryCondition {
+    if (this.check(TokenType.NOT)) {
+      this.advance(); // NOT
+      return createQueryNot(this.parseQueryNot());
+    }
+
+    if (this.check(TokenType.LPAREN)) {
+      this.advance(); // '('
+      const inner = this.parseQueryOr();
+      if (!this.check(TokenType.RPAREN)) {
+        throw new ParserError(`쿼리 절 뒤에 ')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+      }
+      this.advance(); // ')'
+      return inner;
+    }
+
+    return this.parseQueryClause();
+  }
+
+  /**
+   * 쿼리 절 파싱: (? | ?x | 이름) (IS | HAS | CAN | 관계) [대상 [값]]
+   */
+  private parseQueryClause(): QueryClause {
+    let subject: QueryPattern | string;
+    if (this.check(TokenType.QUESTION)) {
+      this.advance();
+      subject = createWildcardPattern();
+    } else if (this.check(TokenType.QUERY_VAR)) {
+      subject = createVariablePattern(this.advance().value as string);
+    } else if (this.check(TokenType.IDENTIFIER)) {
+      subject = this.advance().lexeme;
+    } else {
+      throw new ParserError(`쿼리 절은 ?, ?변수 또는 노드 이름으로 시작해야 합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+
+    // 관계 타입 (IS, HAS, CAN 또는 사용자 정의 관계)
+    if (
+      !this.check(TokenType.IS) &&
+      !this.check(TokenType.HAS) &&
+      !this.check(TokenType.CAN) &&
+      !this.check(TokenType.IDENTIFIER)
+    ) {
+      throw new ParserError(`쿼리에서 IS, HAS, CAN 또는 관계 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
     }
 
     const relationToken = this.advance();
-    const relation = relationToken.lexeme.toUpperCase();
+    const relation = relationToken.type === TokenType.IDENTIFIER ? relationToken.lexeme : relationToken.lexeme.toUpperCase();
 
     // 대상
-    let target: string | null = null;
+    let target: string | QueryPattern | null = null;
     let targetValue: unknown = null;
 
-    if (this.check(TokenType.IDENTIFIER)) {
+    if (this.check(TokenType.QUERY_VAR)) {
+      if (relation === 'HAS' || relation === 'CAN') {
+        throw new ParserError(`${relation} 대상에는 쿼리 변수를 쓸 수 없습니다`, this.peek());
+      }
+      target = createVariablePattern(this.advance().value as string);
+    } else if (this.check(TokenType.IDENTIFIER) && !this.checkQueryModifier()) {
       target = this.advance().lexeme;
 
       // HAS의 경우 값도 있을 수 있음
@@ -710,22 +1415,22 @@ export class Parser {
       }
     }
 
-    // WHERE 조건 확인
-    let whereCondition: Expression | null = null;
-    if (this.check(TokenType.WHERE)) {
-      this.advance(); // WHERE
-      whereCondition = this.parseQueryCondition();
-    }
-
-    return createQueryStmt(pattern, relation, target, targetValue, whereCondition, queryToken.line, queryToken.column);
+    return createQueryClause(subject, relation, target, targetValue);
   }
 
   private parseQueryCondition(): Expression {
-    return this.parseComparison();
+    // WHERE는 쿼리의 마지막이므로 AND / OR까지 포함한 전체 식
+    return this.parseExpression();
   }
 
   private checkEndOfQueryStatement(): boolean {
-    return this.isAtEnd() || this.check(TokenType.NEWLINE) || this.check(TokenType.END) || this.check(TokenType.WHERE);
+    return (
+      this.isAtEnd() ||
+      this.check(TokenType.NEWLINE) ||
+      this.check(TokenType.END) ||
+      this.check(TokenType.WHERE) ||
+      this.checkQueryModifier()
+    );
   }
 
   // Expression Parsing (Pratt Parser style)
@@ -740,7 +1445,7 @@ export class Parser {
     while (this.check(TokenType.OR)) {
       this.advance();
       const right = this.parseAnd();
-      expr = createBinaryExpr(expr, BinaryOperator.Or, right, expr.line, expr.column);
+      expr = createBinaryExpr(expr, BinaryOperator.Or, right, spanBetween(expr, right));
     }
 
     return expr;
@@ -752,7 +1457,7 @@ export class Parser {
     while (this.check(TokenType.AND)) {
       this.advance();
       const right = this.parseComparison();
-      expr = createBinaryExpr(expr, BinaryOperator.And, right, expr.line, expr.column);
+      expr = createBinaryExpr(expr, BinaryOperator.And, right, spanBetween(expr, right));
     }
 
     return expr;
@@ -767,12 +1472,19 @@ export class Parser {
       this.check(TokenType.LT) ||
       this.check(TokenType.GT) ||
       this.check(TokenType.LTE) ||
-      this.check(TokenType.GTE)
+      this.check(TokenType.GTE) ||
+      this.checkWord('CONTAINS')
     ) {
+      // CONTAINS는 피연산자 뒤에서만 연산자로 읽는 문맥 키워드
       const opToken = this.advance();
-      const op = this.getBinaryOperator(opToken.type);
+      const op = opToken.type === TokenType.IDENTIFIER ? BinaryOperator.Contains : this.getBinaryOperator(opToken.type);
       const right = this.parseAdditive();
-      expr = createBinaryExpr(expr, op, right, expr.line, expr.column);
+      expr = createBinaryExpr(expr, op, right, spanBetween(expr, right));
+    }
+
+    // 비교 자리의 단독 '='는 '=='의 오타로 본다
+    if (this.check(TokenType.ASSIGN)) {
+      throw new ParserError("'=' 단독 사용 불가, '==' 사용하세요", this.peek());
     }
 
     return expr;
@@ -785,7 +1497,7 @@ export class Parser {
       const opToken = this.advance();
       const op = this.getBinaryOperator(opToken.type);
       const right = this.parseMultiplicative();
-      expr = createBinaryExpr(expr, op, right, expr.line, expr.column);
+      expr = createBinaryExpr(expr, op, right, spanBetween(expr, right));
     }
 
     return expr;
@@ -798,7 +1510,7 @@ export class Parser {
       const opToken = this.advance();
       const op = this.getBinaryOperator(opToken.type);
       const right = this.parseUnary();
-      expr = createBinaryExpr(expr, op, right, expr.line, expr.column);
+      expr = createBinaryExpr(expr, op, right, spanBetween(expr, right));
     }
 
     return expr;
@@ -809,14 +1521,14 @@ export class Parser {
     if (this.check(TokenType.NOT)) {
       const opToken = this.advance();
       const operand = this.parseUnary();
-      return createUnaryExpr(UnaryOperator.Not, operand, opToken.line, opToken.column);
+      return createUnaryExpr(UnaryOperator.Not, operand, spanBetween(opToken, operand));
     }
 
     // -
     if (this.check(TokenType.MINUS)) {
       const opToken = this.advance();
       const operand = this.parseUnary();
-      return createUnaryExpr(UnaryOperator.Negate, operand, opToken.line, opToken.column);
+      return createUnaryExpr(UnaryOperator.Negate, operand, spanBetween(opToken, operand));
     }
 
     return this.parsePostfix();
@@ -832,7 +1544,9 @@ export class Parser {
           throw new ParserError(`'.' 뒤에 속성 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
         }
         const property = this.advance();
-        expr = createPropertyAccessExpr(expr, property.lexeme, expr.line, expr.column);
+        expr = createPropertyAccessExpr(expr, property.lexeme, spanBetween(expr, property));
+      } else if (this.check(TokenType.LBRACKET)) {
+        expr = this.parseIndexSuffix(expr);
       } else if (this.check(TokenType.OF)) {
         // OF 표기법: HP OF Player
         if (expr.kind !== 'identifier') {
@@ -843,7 +1557,7 @@ export class Parser {
 
         const objExpr = this.parsePostfix();
 
-        expr = createPropertyAccessExpr(objExpr, expr.name, expr.line, expr.column);
+        expr = createPropertyAccessExpr(objExpr, expr.name, spanBetween(expr, objExpr));
       } else {
         break;
       }
@@ -852,29 +1566,81 @@ export class Parser {
     return expr;
   }
 
+  /**
+   * 리스트 리터럴: [expr, expr, ...]
+   */
+  private parseListLiteral(): Expression {
+    const lbracket = this.advance(); // '['
+    const elements: Expression[] = [];
+
+    if (!this.check(TokenType.RBRACKET)) {
+      while (true) {
+        elements.push(this.parseExpression());
+        if (!this.check(TokenType.COMMA)) break;
+        this.advance(); // ','
+      }
+    }
+
+    if (!this.check(TokenType.RBRACKET)) {
+      throw new ParserError(`리스트 뒤에 ']'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+    this.advance(); // ']'
+
+    return createListExpr(elements, this.spanFrom(lbracket));
+  }
+
+  /**
+   * 인덱스 접미사: expr[index]
+   */
+  private parseIndexSuffix(object: Expression): Expression {
+    this.advance(); // '['
+    const index = this.parseExpression();
+    if (!this.check(TokenType.RBRACKET)) {
+      throw new ParserError(`']'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
+    }
+    const rbracket = this.advance(); // ']'
+    return createIndexExpr(object, index, spanBetween(object, rbracket));
+  }
+
   private parsePrimary(): Expression {
     const token = this.peek();
 
     if (this.check(TokenType.NUMBER)) {
       this.advance();
-      return createNumberExpr(token.value as number, token.line, token.column);
+      return createNumberExpr(token.value as number, token);
     }
 
     if (this.check(TokenType.STRING)) {
       this.advance();
-      return createStringExpr(token.value as string, token.line, token.column);
+      return createStringExpr(token.value as string, token);
+    }
+
+    if (this.check(TokenType.TEMPLATE_STRING)) {
+      this.advance();
+      return this.parseTemplateString(token);
     }
 
     if (this.check(TokenType.IDENTIFIER)) {
       this.advance();
-      return createIdentifierExpr(token.lexeme, token.line, token.column);
+      if (this.checkCallStart(token)) {
+        return this.parseCall(token);
+      }
+      const aggregate = AGGREGATE_FUNCTIONS.get(token.lexeme.toUpperCase());
+      if (aggregate !== undefined && this.checkAggregateStart(aggregate)) {
+        return this.parseAggregate(token, aggregate);
+      }
+      return createIdentifierExpr(token.lexeme, token);
     }
 
     // 쿼리 변수
     if (this.check(TokenType.QUERY_VAR)) {
       this.advance();
       const varName = token.value as string;
-      return createIdentifierExpr(varName, token.line, token.column);
+      return createIdentifierExpr(varName, token);
+    }
+
+    if (this.check(TokenType.LBRACKET)) {
+      return this.parseListLiteral();
     }
 
     if (this.check(TokenType.LPAREN)) {
@@ -884,7 +1650,7 @@ export class Parser {
         throw new ParserError(`')'가 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
       }
       this.advance(); // ')'
-      return createGroupingExpr(inner, token.line, token.column);
+      return createGroupingExpr(inner, this.spanFrom(token));
     }
 
     // RANDOM min max
@@ -895,7 +1661,7 @@ export class Parser {
       let minExpr: Expression;
       if (this.check(TokenType.NUMBER)) {
         const numToken = this.advance();
-        minExpr = createNumberExpr(numToken.value as number, numToken.line, numToken.column);
+        minExpr = createNumberExpr(numToken.value as number, numToken);
       } else if (this.check(TokenType.LPAREN)) {
         this.advance(); // '('
         minExpr = this.parseExpression();
@@ -905,14 +1671,14 @@ export class Parser {
         this.advance(); // ')'
       } else if (this.check(TokenType.IDENTIFIER)) {
         const idToken = this.advance();
-        minExpr = createIdentifierExpr(idToken.lexeme, idToken.line, idToken.column);
+        minExpr = createIdentifierExpr(idToken.lexeme, idToken);
         while (this.check(TokenType.DOT)) {
           this.advance(); // '.'
           if (!this.check(TokenType.IDENTIFIER)) {
             throw new ParserError(`'.' 뒤에 속성 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
           }
           const prop = this.advance();
-          minExpr = createPropertyAccessExpr(minExpr, prop.lexeme, minExpr.line, minExpr.column);
+          minExpr = createPropertyAccessExpr(minExpr, prop.lexeme, spanBetween(minExpr, prop));
         }
       } else {
         throw new ParserError(`RANDOM 뒤에 최소값이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
@@ -922,7 +1688,7 @@ export class Parser {
       let maxExpr: Expression;
       if (this.check(TokenType.NUMBER)) {
         const numToken = this.advance();
-        maxExpr = createNumberExpr(numToken.value as number, numToken.line, numToken.column);
+        maxExpr = createNumberExpr(numToken.value as number, numToken);
       } else if (this.check(TokenType.LPAREN)) {
         this.advance(); // '('
         maxExpr = this.parseExpression();
@@ -932,25 +1698,33 @@ export class Parser {
         this.advance(); // ')'
       } else if (this.check(TokenType.IDENTIFIER)) {
         const idToken = this.advance();
-        maxExpr = createIdentifierExpr(idToken.lexeme, idToken.line, idToken.column);
+        maxExpr = createIdentifierExpr(idToken.lexeme, idToken);
         while (this.check(TokenType.DOT)) {
           this.advance(); // '.'
           if (!this.check(TokenType.IDENTIFIER)) {
             throw new ParserError(`'.' 뒤에 속성 이름이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
           }
           const prop = this.advance();
-          maxExpr = createPropertyAccessExpr(maxExpr, prop.lexeme, maxExpr.line, maxExpr.column);
+          maxExpr = createPropertyAccessExpr(maxExpr, prop.lexeme, spanBetween(maxExpr, prop));
         }
       } else {
         throw new ParserError(`RANDOM 뒤에 최대값이 필요합니다. '${this.peek().lexeme}' 발견`, this.peek());
       }
 
-      return createRandomExpr(minExpr, maxExpr, token.line, token.column);
+      return createRandomExpr(minExpr, maxExpr, this.spanFrom(token));
     }
 
     throw new ParserError(`표현식이 필요합니다. '${token.lexeme}' 발견`, token);
   }
 
+  private parseTemplateString(token: Token): Expression {
+    const parts = (token.value as TemplatePart[]).map((part) =>
+      typeof part === 'string' ? part : new Parser(part).parseStandaloneExpression()
+    );
+
+    return createInterpolationExpr(parts, token);
+  }
+
   private getBinaryOperator(type: TokenType): BinaryOperator {
     switch (type) {
       case TokenType.PLUS:
@@ -994,11 +1768,20 @@ export class Parser {
         return this.advance().value;
       case TokenType.IDENTIFIER:
         return this.advance().lexeme;
+      case TokenType.TEMPLATE_STRING:
+        throw new ParserError('보간 문자열은 이 위치에서 사용할 수 없습니다', token);
       default:
         throw new ParserError(`값(숫자, 문자열, 식별자)이 필요합니다. '${token.lexeme}' 발견`, token);
     }
   }
 
+  /**
+   * start부터 마지막으로 소비한 토큰까지의 범위
+   */
+  private spanFrom(start: SourceSpan): SourceSpan {
+    return spanBetween(start, this.previous());
+  }
+
   private skipNewlines(): void {
     while (this.check(TokenType.NEWLINE)) {
       this.advance();
@@ -1009,6 +1792,36 @@ export class Parser {
     return this.isAtEnd() || this.check(TokenType.NEWLINE) || this.check(TokenType.END) || this.check(TokenType.WHEN);
   }
 
+  /**
+   * 문장 첫 단어 뒤에 내장 관계나 속성 접근이 오는지 (그렇다면 RETURN 같은 문맥 키워드도 노드 주어)
+   */
+  private checkSubjectNext(): boolean {
+    const next = this.tokens[this.current + 1]?.type;
+    return (
+      next === TokenType.IS ||
+      next === TokenType.HAS ||
+      next === TokenType.DO ||
+      next === TokenType.PRINT ||
+      next === TokenType.CAN ||
+      next === TokenType.LOSES ||
+      next === TokenType.EACH ||
+      next === TokenType.WHEN ||
+      next === TokenType.DOT
+    );
+  }
+
+  /**
+   * 현재 토큰 뒤, 줄이 끝나기 전에 type 토큰이 있는지
+   */
+  private checkAheadInLine(type: TokenType): boolean {
+    for (let i = this.current + 1; i < this.tokens.length; i++) {
+      const next = this.tokens[i].type;
+      if (next === type) return true;
+      if (next === TokenType.NEWLINE || next === TokenType.EOF) return false;
+    }
+    return false;
+  }
+
   private checkRelation(): boolean {
     const type = this.peek().type;
     return (
@@ -1044,6 +1857,25 @@ export class Parser {
     return this.peek().type === type;
   }
 
+  private checkNext(type: TokenType, distance = 1): boolean {
+    const next = this.tokens[this.current + distance];
+    return next !== undefined && next.type === type;
+  }
+
+  /**
+   * AS 바인딩 시작 (AS 뒤에 변수 이름이 와야 한다)
+   */
+  private checkAsBinding(): boolean {
+    return this.checkWord('AS') && this.checkNext(TokenType.IDENTIFIER);
+  }
+
+  /**
+   * 예약어가 아닌 문맥 키워드 확인 (대소문자 무시)
+   */
+  private checkWord(word: string): boolean {
+    return this.check(TokenType.IDENTIFIER) && this.peek().lexeme.toUpperCase() === word;
+  }
+
   private isAtEnd(): boolean {
     return this.peek().type === TokenType.EOF;
   }
@@ -1,4 +1,5 @@
-import { Expression, expressionToString } from './Expression.js';
+import { SourceSpan, copySpan } from '../tokenizer/Token.js';
+import { Expression, expressionToString, quoteString } from './Expression.js';
 
 /**
  * LOSES 타입
@@ -8,6 +9,20 @@ export enum LosesType {
   Is = 'Is',
 }
 
+/**
+ * EACH 반복 대상의 종류
+ */
+export enum EachSource {
+  /** 컬렉션 노드의 직접 자식 (Monster EACH m) */
+  Children = 'Children',
+  /** 컬렉션 노드의 모든 자손 (Monster EACH DEEP m) */
+  Descendants = 'Descendants',
+  /** 쿼리 결과 (?enemies EACH e) */
+  Query = 'Query',
+  /** 리스트 속성 또는 관계 대상 (Player.Tags EACH t, Player.OWNS EACH item) */
+  Expression = 'Expression',
+}
+
 /**
  * 디버그 대상
  */
@@ -33,22 +48,163 @@ export function createVariablePattern(name: string): QueryPattern {
   return { isWildcard: false, variableName: name };
 }
 
+/**
+ * 쿼리 절: 주어 관계 [대상 [값]]
+ * 주어는 ?x, ? 또는 노드 이름(subjectName), 대상은 이름(타입, 속성, 능력, 노드) 또는 ?변수(targetVariable).
+ * 관계는 IS, HAS, CAN 또는 사용자 정의 관계 이름이다.
+ */
+export interface QueryClause {
+  readonly kind: 'clause';
+  readonly subject: QueryPattern | null;
+  readonly subjectName: string | null;
+  readonly relation: string;
+  readonly target: string | null;
+  readonly targetVariable: string | null;
+  readonly targetValue: unknown;
+}
+
+/**
+ * 쿼리 절의 논리 결합: AND, OR
+ */
+export interface QueryLogical {
+  readonly kind: 'and' | 'or';
+  readonly left: QueryCondition;
+  readonly right: QueryCondition;
+}
+
+/**
+ * 쿼리 절의 부정: NOT (만족하는 바인딩이 하나도 없을 때 참)
+ */
+export interface QueryNot {
+  readonly kind: 'not';
+  readonly operand: QueryCondition;
+}
+
+export type QueryCondition = QueryClause | QueryLogical | QueryNot;
+
+export function createQueryClause(
+  subject: QueryPattern | string,
+  relation: string,
+  target: string | QueryPattern | null,
+  targetValue: unknown = null
+): QueryClause {
+  return {
+    kind: 'clause',
+    subject: typeof subject === 'string' ? null : subject,
+    subjectName: typeof subject === 'string' ? subject : null,
+    relation,
+    target: typeof target === 'string' ? target : null,
+    targetVariable: target !== null && typeof target !== 'string' ? target.variableName : null,
+    targetValue,
+  };
+}
+
+export function createQueryLogical(kind: 'and' | 'or', left: QueryCondition, right: QueryCondition): QueryLogical {
+  return { kind, left, right };
+}
+
+export function createQueryNot(operand: QueryCondition): QueryNot {
+  return { kind: 'not', operand };
+}
+
+/**
+ * 쿼리 정렬 키: ORDER BY ?m.HP DESC
+ */
+export interface QueryOrder {
+  readonly expression: Expression;
+  readonly descending: boolean;
+}
+
+/**
+ * 쿼리 결과 후처리: DISTINCT, ORDER BY, LIMIT, OFFSET
+ */
+export interface QueryModifiers {
+  readonly distinct: boolean;
+  readonly orderBy: QueryOrder[];
+  readonly limit: number | null;
+  /** OFFSET n (소스 위치 offset과 겹치지 않도록 skip으로 둔다) */
+  readonly skip: number | null;
+}
+
+export function createQueryOrder(expression: Expression, descending: boolean): QueryOrder {
+  return { expression, descending };
+}
+
+/**
+ * 쿼리 후처리 절을 문자열로 변환 (앞에 공백 포함, 없으면 빈 문자열)
+ */
+export function queryModifiersToString(
+  modifiers: QueryModifiers,
+  formatExpression: (expr: Expression) => string = expressionToString
+): string {
+  let result = '';
+  if (modifiers.distinct) result += ' DISTINCT';
+  if (modifiers.orderBy.length > 0) {
+    const keys = modifiers.orderBy.map((key) => `${formatExpression(key.expression)}${key.descending ? ' DESC' : ''}`);
+    result += ` ORDER BY ${keys.join(', ')}`;
+  }
+  if (modifiers.limit !== null) result += ` LIMIT ${modifiers.limit}`;
+  if (modifiers.skip !== null) result += ` OFFSET ${modifiers.skip}`;
+  return result;
+}
+
+/**
+ * 쿼리 조건을 문자열로 변환 (formatValue로 HAS 값 표기 방식을 바꿀 수 있다)
+ */
+export function queryConditionToString(
+  condition: QueryCondition,
+  formatValue: (value: unknown) => string = String
+): string {
+  switch (condition.kind) {
+    case 'clause': {
+      const subject =
+        condition.subjectName ?? (condition.subject?.isWildcard ? '?' : `?${condition.subject?.variableName}`);
+      let result = `${subject} ${condition.relation}`;
+      if (condition.targetVariable !== null) result += ` ?${condition.targetVariable}`;
+      if (condition.target !== null) result += ` ${condition.target}`;
+      if (condition.targetValue !== null && condition.targetValue !== undefined) {
+        result += ` ${formatValue(condition.targetValue)}`;
+      }
+      return result;
+    }
+    case 'not': {
+      const operand = queryConditionToString(condition.operand, formatValue);
+      return condition.operand.kind === 'clause' ? `NOT ${operand}` : `NOT (${operand})`;
+    }
+    case 'and':
+    case 'or': {
+      // AND가 OR보다 우선하므로 AND 안의 OR만 괄호로 감싼다
+      const side = (child: QueryCondition) => {
+        const text = queryConditionToString(child, formatValue);
+        return condition.kind === 'and' && child.kind === 'or' ? `(${text})` : text;
+      };
+      return `${side(condition.left)} ${condition.kind.toUpperCase()} ${side(condition.right)}`;
+    }
+  }
+}
+
 /**
  * 문장 기본 인터페이스
  */
-interface BaseStatement {
-  readonly line: number;
-  readonly column: number;
+interface BaseStatement extends SourceSpan {}
+
+/**
+ * 관계 간선 속성: WITH Name Value
+ */
+export interface RelationAttribute {
+  readonly name: string;
+  readonly value: Expression;
 }
 
 /**
- * 관계 문장: Subject Relation [Args...]
+ * 관계 문장: Subject Relation [Args...] [WITH Name Value, ...]
  */
 export interface RelationStatement extends BaseStatement {
   readonly kind: 'relation';
   readonly subject: string;
   readonly relation: string;
   readonly arguments: unknown[];
+  readonly attributes: RelationAttribute[];
 }
 
 /**
@@ -90,12 +246,13 @@ export interface RoleDefinitionStatement extends BaseStatement {
 }
 
 /**
- * DO 블록 문장
+ * DO 블록 문장 (undo가 true이면 LOSES DO: 관계를 잃을 때 실행)
  */
 export interface DoBlockStatement extends BaseStatement {
   readonly kind: 'doBlock';
   readonly subject: string;
   readonly body: Statement[];
+  readonly undo: boolean;
 }
 
 /**
@@ -115,6 +272,8 @@ export interface LosesStatement extends BaseStatement {
   readonly subject: string;
   readonly target: string;
   readonly type: LosesType;
+  /** 리스트 요소나 관계 대상 (Player LOSES Tags "brave", Alice LOSES LIKES Bob), 없으면 null */
+  readonly argument: unknown;
 }
 
 /**
@@ -158,34 +317,130 @@ export interface ChanceStatement extends BaseStatement {
 
 /**
  * ALL 쿼리문
+ * 단일 동작(ALL Monster HAS HP 10) 또는 본문(ALL Monster AS m DO ... END) 중 하나를 가진다.
  */
 export interface AllStatement extends BaseStatement {
   readonly kind: 'all';
   readonly typeName: string;
   readonly queryVariable: string | null;
   readonly action: Statement | null;
+  /** AS로 바인딩할 변수 이름 */
+  readonly binding: string | null;
+  readonly body: Statement[] | null;
 }
 
 /**
  * EACH 반복문
+ * 순회 순서: 노드는 그래프에 만들어진 순서, 쿼리 결과는 쿼리가 찾은 순서,
+ * 리스트는 인덱스 순서, 관계 대상은 간선이 추가된 순서
  */
 export interface EachStatement extends BaseStatement {
   readonly kind: 'each';
+  /** 컬렉션 노드 이름, 쿼리 변수 이름 또는 대상 표현식의 문자열 */
   readonly collection: string;
   readonly variable: string;
   readonly body: Statement[];
+  readonly source: EachSource;
+  /** source가 Expression일 때의 대상 표현식 */
+  readonly collectionExpression: Expression | null;
+}
+
+/**
+ * WHILE 반복문: WHILE (조건) DO ... END
+ */
+export interface WhileStatement extends BaseStatement {
+  readonly kind: 'while';
+  readonly condition: Expression;
+  readonly body: Statement[];
+}
+
+/**
+ * REPEAT 반복문: REPEAT 횟수 DO ... END
+ */
+export interface RepeatStatement extends BaseStatement {
+  readonly kind: 'repeat';
+  readonly count: Expression;
+  readonly body: Statement[];
+}
+
+/**
+ * 지역 변수 선언: LET x = 식
+ */
+export interface LetStatement extends BaseStatement {
+  readonly kind: 'let';
+  readonly name: string;
+  readonly value: Expression;
+}
+
+/**
+ * 지역 변수 대입: SET x = 식
+ */
+export interface SetStatement extends BaseStatement {
+  readonly kind: 'set';
+  readonly name: string;
+  readonly value: Expression;
+}
+
+/**
+ * 함수 정의: FUNCTION CalcDamage(attacker, target) DO ... END
+ */
+export interface FunctionStatement extends BaseStatement {
+  readonly kind: 'function';
+  readonly name: string;
+  readonly parameters: string[];
+  readonly body: Statement[];
+}
+
+/**
+ * 함수 반환: RETURN 식
+ */
+export interface ReturnStatement extends BaseStatement {
+  readonly kind: 'return';
+  readonly value: Expression;
 }
 
 /**
  * 쿼리 문장
  */
-export interface QueryStatement extends BaseStatement {
+export interface QueryStatement extends BaseStatement, QueryModifiers {
   readonly kind: 'query';
+  /** 결과 변수 (첫 절의 주어) */
   readonly subject: QueryPattern;
+  /** 첫 절의 관계, 대상, 값 */
   readonly relation: string;
   readonly target: string | null;
   readonly targetValue: unknown;
   readonly whereCondition: Expression | null;
+  /** 전체 조건 (절 하나뿐이면 첫 절과 같다) */
+  readonly condition: QueryCondition;
+}
+
+/**
+ * 추론 규칙: RULE ?x IS Undead WHEN ?x IS Monster AND ?x HAS HP 0
+ * 결론(head)은 IS, HAS 또는 관계 절 하나이며, 조건을 만족하는 바인딩마다 사실로 유도된다.
+ */
+export interface RuleStatement extends BaseStatement {
+  readonly kind: 'rule';
+  readonly head: QueryClause;
+  readonly condition: QueryCondition;
+  readonly whereCondition: Expression | null;
+}
+
+/**
+ * 트리거
+ *   ON Player.HP CHANGES [AS p] DO ... END  (속성 값이 바뀔 때)
+ *   ON ?x IS Dead [WHERE 식] DO ... END      (조건을 새로 만족하는 바인딩마다)
+ */
+export interface OnStatement extends BaseStatement {
+  readonly kind: 'on';
+  /** 속성 트리거: 감시할 노드(또는 타입) 이름과 속성, 바뀐 노드를 받을 변수 */
+  readonly subject: string | null;
+  readonly property: string | null;
+  readonly binding: string | null;
+  /** 조건 트리거 */
+  readonly condition: QueryCondition | null;
+  readonly whereCondition: Expression | null;
+  readonly body: Statement[];
 }
 
 /**
@@ -206,35 +461,41 @@ export type Statement =
   | ChanceStatement
   | AllStatement
   | EachStatement
-  | QueryStatement;
-
-// 문장 생성 헬퍼 함수들
+  | WhileStatement
+  | RepeatStatement
+  | LetStatement
+  | SetStatement
+  | FunctionStatement
+  | ReturnStatement
+  | QueryStatement
+  | RuleStatement
+  | OnStatement;
+
+// 문장 생성 헬퍼 함수들 (범위는 SourceSpan으로 받는다, 이전의 line/column 형태는 없음)
 export function createRelationStmt(
   subject: string,
   relation: string,
   args: unknown[],
-  line: number,
-  column: number
+  span: SourceSpan,
+  attributes: RelationAttribute[] = []
 ): RelationStatement {
-  return { kind: 'relation', subject, relation, arguments: args, line, column };
+  return { kind: 'relation', subject, relation, arguments: args, attributes, ...copySpan(span) };
 }
 
 export function createHasExpressionStmt(
   subject: string,
   property: string,
   valueExpression: Expression,
-  line: number,
-  column: number
+  span: SourceSpan
 ): HasExpressionStatement {
-  return { kind: 'hasExpression', subject, property, valueExpression, line, column };
+  return { kind: 'hasExpression', subject, property, valueExpression, ...copySpan(span) };
 }
 
 export function createExpressionPrintStmt(
   subject: Expression,
-  line: number,
-  column: number
+  span: SourceSpan
 ): ExpressionPrintStatement {
-  return { kind: 'expressionPrint', subject, line, column };
+  return { kind: 'expressionPrint', subject, ...copySpan(span) };
 }
 
 export function createExpressionHasStmt(
@@ -242,60 +503,56 @@ export function createExpressionHasStmt(
   property: string,
   value: unknown,
   valueExpression: Expression | null,
-  line: number,
-  column: number
+  span: SourceSpan
 ): ExpressionHasStatement {
-  return { kind: 'expressionHas', subject, property, value, valueExpression, line, column };
+  return { kind: 'expressionHas', subject, property, value, valueExpression, ...copySpan(span) };
 }
 
 export function createRoleDefinitionStmt(
   subject: string,
   roleName: string,
-  line: number,
-  column: number
+  span: SourceSpan
 ): RoleDefinitionStatement {
-  return { kind: 'roleDefinition', subject, roleName, line, column };
+  return { kind: 'roleDefinition', subject, roleName, ...copySpan(span) };
 }
 
 export function createDoBlockStmt(
   subject: string,
   body: Statement[],
-  line: number,
-  column: number
+  span: SourceSpan,
+  undo = false
 ): DoBlockStatement {
-  return { kind: 'doBlock', subject, body, line, column };
+  return { kind: 'doBlock', subject, body, undo, ...copySpan(span) };
 }
 
 export function createCanStmt(
   subject: string,
   ability: string,
-  line: number,
-  column: number
+  span: SourceSpan
 ): CanStatement {
-  return { kind: 'can', subject, ability, line, column };
+  return { kind: 'can', subject, ability, ...copySpan(span) };
 }
 
 export function createLosesStmt(
   subject: string,
   target: string,
   type: LosesType,
-  line: number,
-  column: number
+  span: SourceSpan,
+  argument: unknown = null
 ): LosesStatement {
-  return { kind: 'loses', subject, target, type, line, column };
+  return { kind: 'loses', subject, target, type, argument, ...copySpan(span) };
 }
 
-export function createDebugStmt(target: DebugTarget, line: number, column: number): DebugStatement {
-  return { kind: 'debug', target, line, column };
+export function createDebugStmt(target: DebugTarget, span: SourceSpan): DebugStatement {
+  return { kind: 'debug', target, ...copySpan(span) };
 }
 
 export function createWhenStmt(
   condition: Statement,
   body: Statement[],
-  line: number,
-  column: number
+  span: SourceSpan
 ): WhenStatement {
-  return { kind: 'when', condition, body, line, column };
+  return { kind: 'when', condition, body, ...copySpan(span) };
 }
 
 export function createWhenExpressionStmt(
@@ -304,40 +561,69 @@ export function createWhenExpressionStmt(
   body: Statement[],
   elseBody: Statement[] | null,
   elseWhen: WhenExpressionStatement | null,
-  line: number,
-  column: number
+  span: SourceSpan
 ): WhenExpressionStatement {
-  return { kind: 'whenExpression', subject, condition, body, elseBody, elseWhen, line, column };
+  return { kind: 'whenExpression', subject, condition, body, elseBody, elseWhen, ...copySpan(span) };
 }
 
 export function createChanceStmt(
   percent: Expression,
   body: Statement[],
   elseBody: Statement[] | null,
-  line: number,
-  column: number
+  span: SourceSpan
 ): ChanceStatement {
-  return { kind: 'chance', percent, body, elseBody, line, column };
+  return { kind: 'chance', percent, body, elseBody, ...copySpan(span) };
 }
 
 export function createAllStmt(
   typeName: string,
   queryVariable: string | null,
   action: Statement | null,
-  line: number,
-  column: number
+  span: SourceSpan,
+  binding: string | null = null,
+  body: Statement[] | null = null
 ): AllStatement {
-  return { kind: 'all', typeName, queryVariable, action, line, column };
+  return { kind: 'all', typeName, queryVariable, action, binding, body, ...copySpan(span) };
 }
 
 export function createEachStmt(
   collection: string,
   variable: string,
   body: Statement[],
-  line: number,
-  column: number
+  span: SourceSpan,
+  source: EachSource = EachSource.Children,
+  collectionExpression: Expression | null = null
 ): EachStatement {
-  return { kind: 'each', collection, variable, body, line, column };
+  return { kind: 'each', collection, variable, body, source, collectionExpression, ...copySpan(span) };
+}
+
+export function createWhileStmt(condition: Expression, body: Statement[], span: SourceSpan): WhileStatement {
+  return { kind: 'while', condition, body, ...copySpan(span) };
+}
+
+export function createRepeatStmt(count: Expression, body: Statement[], span: SourceSpan): RepeatStatement {
+  return { kind: 'repeat', count, body, ...copySpan(span) };
+}
+
+export function createLetStmt(name: string, value: Expression, span: SourceSpan): LetStatement {
+  return { kind: 'let', name, value, ...copySpan(span) };
+}
+
+export function createSetStmt(name: string, value: Expression, span: SourceSpan): SetStatement {
+  return { kind: 'set', name, value, ...copySpan(span) };
+}
+
+export function createFunctionStmt(
+  name: string,
+  parameters: string[],
+  body: Statement[],
+  span: SourceSpan
+): FunctionStatement {
+  return { kind: 'function', name, parameters, body, ...copySpan(span) };
+}
+
+export function createReturnStmt(value: Expression, span: SourceSpan): ReturnStatement {
+  return { kind: 'return', value, ...copySpan(span) };
 }
 
 export function createQueryStmt(
@@ -346,10 +632,70 @@ export function createQueryStmt(
   target: string | null,
   targetValue: unknown,
   whereCondition: Expression | null,
-  line: number,
-  column: number
+  span: SourceSpan,
+  condition: QueryCondition | null = null,
+  modifiers: Partial<QueryModifiers> = {}
 ): QueryStatement {
-  return { kind: 'query', subject, relation, target, targetValue, whereCondition, line, column };
+  return {
+    kind: 'query',
+    subject,
+    relation,
+    target,
+    targetValue,
+    whereCondition,
+    condition: condition ?? createQueryClause(subject, relation, target, targetValue),
+    distinct: modifiers.distinct ?? false,
+    orderBy: modifiers.orderBy ?? [],
+    limit: modifiers.limit ?? null,
+    skip: modifiers.skip ?? null,
+    ...copySpan(span),
+  };
+}
+
+export function createRuleStmt(
+  head: QueryClause,
+  condition: QueryCondition,
+  whereCondition: Expression | null,
+  span: SourceSpan
+): RuleStatement {
+  return { kind: 'rule', head, condition, whereCondition, ...copySpan(span) };
+}
+
+export function createOnChangeStmt(
+  subject: string,
+  property: string,
+  binding: string | null,
+  body: Statement[],
+  span: SourceSpan
+): OnStatement {
+  return {
+    kind: 'on',
+    subject,
+    property,
+    binding,
+    condition: null,
+    whereCondition: null,
+    body,
+    ...copySpan(span),
+  };
+}
+
+export function createOnMatchStmt(
+  condition: QueryCondition,
+  whereCondition: Expression | null,
+  body: Statement[],
+  span: SourceSpan
+): OnStatement {
+  return {
+    kind: 'on',
+    subject: null,
+    property: null,
+    binding: null,
+    condition,
+    whereCondition,
+    body,
+    ...copySpan(span),
+  };
 }
 
 /**
@@ -358,9 +704,13 @@ export function createQueryStmt(
 export function statementToString(stmt: Statement): string {
   switch (stmt.kind) {
     case 'relation': {
-      if (stmt.arguments.length === 0) return `${stmt.subject} ${stmt.relation}`;
-      const argsStr = stmt.arguments.map((a) => (typeof a === 'string' ? `"${a}"` : String(a))).join(' ');
-      return `${stmt.subject} ${stmt.relation} ${argsStr}`;
+      const parts = [stmt.subject, stmt.relation];
+      parts.push(...stmt.arguments.map((a) => (typeof a === 'string' ? quoteString(a) : String(a))));
+      if (stmt.attributes.length > 0) {
+        const attrs = stmt.attributes.map((attr) => `${attr.name} ${expressionToString(attr.value)}`);
+        parts.push(`WITH ${attrs.join(', ')}`);
+      }
+      return parts.join(' ');
     }
     case 'hasExpression':
       return `${stmt.subject} HAS ${stmt.property} (${expressionToString(stmt.valueExpression)})`;
@@ -374,13 +724,15 @@ export function statementToString(stmt: Statement): string {
     case 'roleDefinition':
       return `${stmt.subject} HAS ${stmt.roleName} (Node)`;
     case 'doBlock':
-      return `${stmt.subject} DO [${stmt.body.length} statements] END`;
+      return `${stmt.subject}${stmt.undo ? ' LOSES' : ''} DO [${stmt.body.length} statements] END`;
     case 'can':
       return `${stmt.subject} CAN ${stmt.ability}`;
-    case 'loses':
-      return stmt.type === LosesType.Is
-        ? `${stmt.subject} LOSES IS ${stmt.target}`
-        : `${stmt.subject} LOSES ${stmt.target}`;
+    case 'loses': {
+      if (stmt.type === LosesType.Is) return `${stmt.subject} LOSES IS ${stmt.target}`;
+      if (stmt.argument === null) return `${stmt.subject} LOSES ${stmt.target}`;
+      const arg = typeof stmt.argument === 'string' ? quoteString(stmt.argument) : String(stmt.argument);
+      return `${stmt.subject} LOSES ${stmt.target} ${arg}`;
+    }
     case 'debug':
       return `DEBUG ${stmt.target}`;
     case 'when':
@@ -403,17 +755,57 @@ export function statementToString(stmt: Statement): string {
     }
     case 'all': {
       const target = stmt.queryVariable ? `?${stmt.queryVariable}` : stmt.typeName;
+      if (stmt.body) {
+        const binding = stmt.binding ? ` AS ${stmt.binding}` : '';
+        return `ALL ${target}${binding} DO [${stmt.body.length} statements] END`;
+      }
       return stmt.action ? `ALL ${target} ${statementToString(stmt.action)}` : `ALL ${target}`;
     }
     case 'each':
-      return `${stmt.collection} EACH ${stmt.variable} DO [${stmt.body.length} statements] END`;
+      return `${eachHeader(stmt)} DO [${stmt.body.length} statements] END`;
+    case 'while':
+      return `WHILE (${expressionToString(stmt.condition)}) DO [${stmt.body.length} statements] END`;
+    case 'repeat':
+      return `REPEAT ${expressionToString(stmt.count)} DO [${stmt.body.length} statements] END`;
+    case 'let':
+      return `LET ${stmt.name} = ${expressionToString(stmt.value)}`;
+    case 'set':
+      return `SET ${stmt.name} = ${expressionToString(stmt.value)}`;
+    case 'function':
+      return `FUNCTION ${stmt.name}(${stmt.parameters.join(', ')}) DO [${stmt.body.length} statements] END`;
+    case 'return':
+      return `RETURN ${expressionToString(stmt.value)}`;
     case 'query': {
-      const subjectStr = stmt.subject.isWildcard ? '?' : `?${stmt.subject.variableName}`;
-      let result = `${subjectStr} ${stmt.relation}`;
-      if (stmt.target) result += ` ${stmt.target}`;
-      if (stmt.targetValue !== null && stmt.targetValue !== undefined) result += ` ${stmt.targetValue}`;
+      let result = queryConditionToString(stmt.condition);
+      if (stmt.whereCondition) result += ` WHERE ${expressionToString(stmt.whereCondition)}`;
+      return result + queryModifiersToString(stmt);
+    }
+    case 'on':
+      return `${triggerHeader(stmt)} [${stmt.body.length} statements] END`;
+    case 'rule': {
+      let result = `RULE ${queryConditionToString(stmt.head)} WHEN ${queryConditionToString(stmt.condition)}`;
       if (stmt.whereCondition) result += ` WHERE ${expressionToString(stmt.whereCondition)}`;
       return result;
     }
   }
 }
+
+function triggerHeader(stmt: OnStatement): string {
+  if (stmt.condition === null) {
+    const binding = stmt.binding ? ` AS ${stmt.binding}` : '';
+    return `ON ${stmt.subject}.${stmt.property} CHANGES${binding} DO`;
+  }
+  const where = stmt.whereCondition ? ` WHERE ${expressionToString(stmt.whereCondition)}` : '';
+  return `ON ${queryConditionToString(stmt.condition)}${where} DO`;
+}
+
+function eachHeader(stmt: EachStatement): string {
+  switch (stmt.source) {
+    case EachSource.Descendants:
+      return `${stmt.collection} EACH DEEP ${stmt.variable}`;
+    case EachSource.Query:
+      return `?${stmt.collection} EACH ${stmt.variable}`;
+    default:
+      return `${stmt.collection} EACH ${stmt.variable}`;
+  }
+}
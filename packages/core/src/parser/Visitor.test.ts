@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../tokenizer/Tokenizer.js';
+import { Parser } from './Parser.js';
+import { Statement, statementToString } from './Statement.js';
+import { createNumberExpr } from './Expression.js';
+import { walkStatements, transformStatements } from './Visitor.js';
+
+function parse(source: string): Statement[] {
+  return new Parser(new Tokenizer(source).tokenize()).parse();
+}
+
+const SOURCE = `Player HAS HP (10 + 2)
+Player WHEN (HP > 1) DO
+  "hp {Player.HP}" PRINT
+  Player LOSES HP
+END`;
+
+describe('Visitor', () => {
+  it('노드를 깊이 우선, 소스 순서로 방문하고 부모를 넘긴다', () => {
+    const visited: string[] = [];
+    walkStatements(parse(SOURCE), {
+      enter(node, parent) {
+        visited.push(`${parent?.kind ?? '-'}>${node.kind}`);
+      },
+    });
+    expect(visited).toEqual([
+      '->hasExpression',
+      'hasExpression>binary',
+      'binary>number',
+      'binary>number',
+      '->whenExpression',
+      'whenExpression>binary',
+      'binary>identifier',
+      'binary>number',
+      'whenExpression>expressionPrint',
+      'expressionPrint>interpolation',
+      'interpolation>propertyAccess',
+      'propertyAccess>identifier',
+      'whenExpression>loses',
+    ]);
+  });
+
+  it('종류별 핸들러가 false를 반환하면 자식을 건너뛴다', () => {
+    const kinds: string[] = [];
+    walkStatements(parse(SOURCE), {
+      statement: { whenExpression: () => false },
+      expression: { number: (expr) => void kinds.push(String(expr.value)) },
+    });
+    expect(kinds).toEqual(['10', '2']);
+  });
+
+  it('변환기는 바뀐 노드만 새로 만들고 문장을 지우거나 늘릴 수 있다', () => {
+    const statements = parse(SOURCE);
+    const transformed = transformStatements(statements, {
+      expression: (expr) => (expr.kind === 'number' && expr.value === 10 ? createNumberExpr(20, expr) : expr),
+      statement: (stmt) => (stmt.kind === 'loses' ? null : stmt.kind === 'hasExpression' ? [stmt, stmt] : stmt),
+    });
+
+    expect(transformed.map(statementToString)).toEqual([
+      'Player HAS HP ((20 Add 2))',
+      'Player HAS HP ((20 Add 2))',
+      'Player WHEN ((HP GreaterThan 1)) DO [1 statements] END',
+    ]);
+    expect(statements[0].kind === 'hasExpression' && statements[0].valueExpression).toMatchObject({
+      left: { value: 10 },
+    });
+
+    const unchanged = parse('Player PRINT');
+    expect(transformStatements(unchanged, {})[0]).toBe(unchanged[0]);
+  });
+});
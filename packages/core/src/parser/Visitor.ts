@@ -0,0 +1,400 @@
+import { Expression } from './Expression.js';
+import { Statement, WhenExpressionStatement } from './Statement.js';
+
+/**
+ * 문장 또는 표현식 노드
+ */
+export type AstNode = Statement | Expression;
+
+const EXPRESSION_KINDS: ReadonlySet<string> = new Set<Expression['kind']>([
+  'number',
+  'string',
+  'identifier',
+  'propertyAccess',
+  'binary',
+  'unary',
+  'grouping',
+  'random',
+  'interpolation',
+  'index',
+  'list',
+  'call',
+  'aggregate',
+]);
+
+export function isExpression(node: AstNode): node is Expression {
+  return EXPRESSION_KINDS.has(node.kind);
+}
+
+export function isStatement(node: AstNode): node is Statement {
+  return !isExpression(node);
+}
+
+/**
+ * 노드 종류별 방문 함수 (false를 반환하면 자식을 건너뛴다)
+ */
+export type StatementHandlers = {
+  [K in Statement['kind']]?: (stmt: Extract<Statement, { kind: K }>, parent: AstNode | null) => boolean | void;
+};
+
+export type ExpressionHandlers = {
+  [K in Expression['kind']]?: (expr: Extract<Expression, { kind: K }>, parent: AstNode | null) => boolean | void;
+};
+
+/**
+ * AST 방문자
+ * enter/leave는 모든 노드에, statement/expression 핸들러는 해당 종류에만 호출된다.
+ */
+export interface AstVisitor {
+  enter?(node: AstNode, parent: AstNode | null): boolean | void;
+  leave?(node: AstNode, parent: AstNode | null): void;
+  statement?: StatementHandlers;
+  expression?: ExpressionHandlers;
+}
+
+/**
+ * 노드의 직접 자식을 소스 순서대로 순회
+ */
+export function forEachChild(node: AstNode, callback: (child: AstNode) => void): void {
+  const each = (nodes: readonly AstNode[] | null) => nodes?.forEach(callback);
+  const one = (child: AstNode | null) => {
+    if (child) callback(child);
+  };
+
+  switch (node.kind) {
+    // 표현식
+    case 'number':
+    case 'string':
+    case 'identifier':
+    case 'aggregate':
+      return;
+    case 'propertyAccess':
+      return one(node.object);
+    case 'binary':
+      one(node.left);
+      return one(node.right);
+    case 'unary':
+      return one(node.operand);
+    case 'grouping':
+      return one(node.inner);
+    case 'random':
+      one(node.min);
+      return one(node.max);
+    case 'interpolation':
+      return node.parts.forEach((part) => {
+        if (typeof part !== 'string') callback(part);
+      });
+
+    case 'index':
+      one(node.object);
+      return one(node.index);
+    case 'list':
+      return each(node.elements);
+    case 'call':
+      return each(node.args);
+
+    // 문장
+    case 'relation':
+      return node.attributes.forEach((attr) => callback(attr.value));
+    case 'roleDefinition':
+    case 'can':
+    case 'loses':
+    case 'debug':
+      return;
+    case 'hasExpression':
+      return one(node.valueExpression);
+    case 'expressionPrint':
+      return one(node.subject);
+    case 'expressionHas':
+      one(node.subject);
+      return one(node.valueExpression);
+    case 'doBlock':
+      return each(node.body);
+    case 'each':
+      one(node.collectionExpression);
+      return each(node.body);
+    case 'when':
+      one(node.condition);
+      return each(node.body);
+    case 'whenExpression':
+      one(node.condition);
+      each(node.body);
+      each(node.elseBody);
+      return one(node.elseWhen);
+    case 'chance':
+      one(node.percent);
+      each(node.body);
+      return each(node.elseBody);
+    case 'while':
+      one(node.condition);
+      return each(node.body);
+    case 'repeat':
+      one(node.count);
+      return each(node.body);
+    case 'let':
+    case 'set':
+    case 'return':
+      return one(node.value);
+    case 'function':
+      return each(node.body);
+    case 'all':
+      one(node.action);
+      return each(node.body);
+    case 'rule':
+      return one(node.whereCondition);
+    case 'on':
+      one(node.whereCondition);
+      return each(node.body);
+    case 'query':
+      one(node.whereCondition);
+      return node.orderBy.forEach((key) => one(key.expression));
+    default: {
+      const _exhaustive: never = node;
+      throw new Error(`알 수 없는 노드: ${(_exhaustive as AstNode).kind}`);
+    }
+  }
+}
+
+/**
+ * 문장 목록을 깊이 우선으로 방문
+ */
+export function walkStatements(statements: readonly Statement[], visitor: AstVisitor): void {
+  for (const stmt of statements) {
+    walkNode(stmt, null, visitor);
+  }
+}
+
+/**
+ * 단일 노드(문장 또는 표현식)와 그 자손을 방문
+ */
+export function walkNode(node: AstNode, parent: AstNode | null, visitor: AstVisitor): void {
+  let descend = visitor.enter?.(node, parent) !== false;
+
+  const handler = isExpression(node)
+    ? (visitor.expression?.[node.kind] as ((n: AstNode, p: AstNode | null) => boolean | void) | undefined)
+    : (visitor.statement?.[node.kind] as ((n: AstNode, p: AstNode | null) => boolean | void) | undefined);
+  if (descend && handler) {
+    descend = handler(node, parent) !== false;
+  }
+
+  if (descend) {
+    forEachChild(node, (child) => walkNode(child, node, visitor));
+  }
+
+  visitor.leave?.(node, parent);
+}
+
+/**
+ * AST 변환기
+ * 자식이 먼저 변환된 뒤(후위 순서) 호출된다.
+ * statement는 노드 하나, 여러 개(배열) 또는 null(삭제)을 반환할 수 있다.
+ */
+export interface AstTransformer {
+  statement?(stmt: Statement): Statement | Statement[] | null;
+  expression?(expr: Expression): Expression;
+}
+
+/**
+ * 문장 목록을 변환한 새 목록 반환
+ * 바뀌지 않은 노드는 원래 객체를 그대로 재사용한다.
+ */
+export function transformStatements(statements: readonly Statement[], transformer: AstTransformer): Statement[] {
+  const result: Statement[] = [];
+  for (const stmt of statements) {
+    const replaced = transformStatement(stmt, transformer);
+    if (Array.isArray(replaced)) {
+      result.push(...replaced);
+    } else if (replaced) {
+      result.push(replaced);
+    }
+  }
+  return result;
+}
+
+/**
+ * 단일 문장 변환
+ */
+export function transformStatement(stmt: Statement, transformer: AstTransformer): Statement | Statement[] | null {
+  const rebuilt = rebuildStatement(stmt, transformer);
+  return transformer.statement ? transformer.statement(rebuilt) : rebuilt;
+}
+
+/**
+ * 표현식 변환
+ */
+export function transformExpression(expr: Expression, transformer: AstTransformer): Expression {
+  const rebuilt = rebuildExpression(expr, transformer);
+  return transformer.expression ? transformer.expression(rebuilt) : rebuilt;
+}
+
+/**
+ * 자식을 변환하고, 바뀐 것이 있을 때만 새 노드를 만든다
+ */
+function rebuildStatement(stmt: Statement, transformer: AstTransformer): Statement {
+  const expr = (e: Expression) => transformExpression(e, transformer);
+  const body = (b: Statement[]) => transformBody(b, transformer);
+
+  switch (stmt.kind) {
+    case 'relation': {
+      const attributes = stmt.attributes.map((attr) => {
+        const value = expr(attr.value);
+        return value === attr.value ? attr : { ...attr, value };
+      });
+      return attributes.every((attr, i) => attr === stmt.attributes[i]) ? stmt : { ...stmt, attributes };
+    }
+    case 'roleDefinition':
+    case 'can':
+    case 'loses':
+    case 'debug':
+      return stmt;
+    case 'hasExpression':
+      return update(stmt, { valueExpression: expr(stmt.valueExpression) });
+    case 'expressionPrint':
+      return update(stmt, { subject: expr(stmt.subject) });
+    case 'expressionHas':
+      return update(stmt, {
+        subject: expr(stmt.subject),
+        valueExpression: stmt.valueExpression && expr(stmt.valueExpression),
+      });
+    case 'doBlock':
+      return update(stmt, { body: body(stmt.body) });
+    case 'each':
+      return update(stmt, {
+        collectionExpression: stmt.collectionExpression && expr(stmt.collectionExpression),
+        body: body(stmt.body),
+      });
+    case 'when':
+      return update(stmt, {
+        condition: single(transformStatement(stmt.condition, transformer), 'WHEN 조건', false),
+        body: body(stmt.body),
+      });
+    case 'whenExpression':
+      return rebuildWhenExpression(stmt, transformer);
+    case 'chance':
+      return update(stmt, {
+        percent: expr(stmt.percent),
+        body: body(stmt.body),
+        elseBody: stmt.elseBody && body(stmt.elseBody),
+      });
+    case 'while':
+      return update(stmt, { condition: expr(stmt.condition), body: body(stmt.body) });
+    case 'repeat':
+      return update(stmt, { count: expr(stmt.count), body: body(stmt.body) });
+    case 'let':
+    case 'set':
+    case 'return':
+      return update(stmt, { value: expr(stmt.value) });
+    case 'function':
+      return update(stmt, { body: body(stmt.body) });
+    case 'all':
+      return update(stmt, {
+        action: stmt.action && single(transformStatement(stmt.action, transformer), 'ALL 동작', true),
+        body: stmt.body && body(stmt.body),
+      });
+    case 'rule':
+      return update(stmt, { whereCondition: stmt.whereCondition && expr(stmt.whereCondition) });
+    case 'on':
+      return update(stmt, {
+        whereCondition: stmt.whereCondition && expr(stmt.whereCondition),
+        body: body(stmt.body),
+      });
+    case 'query': {
+      const orderBy = stmt.orderBy.map((key) => {
+        const expression = expr(key.expression);
+        return expression === key.expression ? key : { ...key, expression };
+      });
+      return update(stmt, {
+        whereCondition: stmt.whereCondition && expr(stmt.whereCondition),
+        orderBy: orderBy.every((key, i) => key === stmt.orderBy[i]) ? stmt.orderBy : orderBy,
+      });
+    }
+    default: {
+      const _exhaustive: never = stmt;
+      throw new Error(`알 수 없는 문장: ${(_exhaustive as Statement).kind}`);
+    }
+  }
+}
+
+function rebuildWhenExpression(stmt: WhenExpressionStatement, transformer: AstTransformer): Statement {
+  let elseWhen: WhenExpressionStatement | null = null;
+  if (stmt.elseWhen) {
+    const replaced = single(transformStatement(stmt.elseWhen, transformer), 'ELSE WHEN', true);
+    if (replaced && replaced.kind !== 'whenExpression') {
+      throw new Error(`ELSE WHEN은 whenExpression으로만 바꿀 수 있습니다. '${replaced.kind}' 반환됨`);
+    }
+    elseWhen = replaced;
+  }
+
+  return update(stmt, {
+    condition: transformExpression(stmt.condition, transformer),
+    body: transformBody(stmt.body, transformer),
+    elseBody: stmt.elseBody && transformBody(stmt.elseBody, transformer),
+    elseWhen,
+  });
+}
+
+function transformBody(body: Statement[], transformer: AstTransformer): Statement[] {
+  const next = transformStatements(body, transformer);
+  return next.length === body.length && next.every((stmt, i) => stmt === body[i]) ? body : next;
+}
+
+function rebuildExpression(expr: Expression, transformer: AstTransformer): Expression {
+  const child = (e: Expression) => transformExpression(e, transformer);
+
+  switch (expr.kind) {
+    case 'number':
+    case 'string':
+    case 'identifier':
+    case 'aggregate':
+      return expr;
+    case 'propertyAccess':
+      return update(expr, { object: child(expr.object) });
+    case 'binary':
+      return update(expr, { left: child(expr.left), right: child(expr.right) });
+    case 'unary':
+      return update(expr, { operand: child(expr.operand) });
+    case 'grouping':
+      return update(expr, { inner: child(expr.inner) });
+    case 'random':
+      return update(expr, { min: child(expr.min), max: child(expr.max) });
+    case 'interpolation': {
+      const parts = expr.parts.map((part) => (typeof part === 'string' ? part : child(part)));
+      return parts.every((part, i) => part === expr.parts[i]) ? expr : { ...expr, parts };
+    }
+    case 'index':
+      return update(expr, { object: child(expr.object), index: child(expr.index) });
+    case 'list': {
+      const elements = expr.elements.map(child);
+      return elements.every((e, i) => e === expr.elements[i]) ? expr : { ...expr, elements };
+    }
+    case 'call': {
+      const args = expr.args.map(child);
+      return args.every((e, i) => e === expr.args[i]) ? expr : { ...expr, args };
+    }
+    default: {
+      const _exhaustive: never = expr;
+      throw new Error(`알 수 없는 표현식: ${(_exhaustive as Expression).kind}`);
+    }
+  }
+}
+
+/**
+ * 바뀐 필드가 있을 때만 복사본을 만든다
+ */
+function update<T extends AstNode>(node: T, changes: Partial<T>): T {
+  const keys = Object.keys(changes) as (keyof T)[];
+  return keys.some((key) => changes[key] !== node[key]) ? { ...node, ...changes } : node;
+}
+
+/**
+ * 문장 하나만 올 수 있는 자리(WHEN 조건, ALL 동작, ELSE WHEN)의 변환 결과 확인
+ */
+function single(replaced: Statement | Statement[] | null, slot: string, nullable: true): Statement | null;
+function single(replaced: Statement | Statement[] | null, slot: string, nullable: false): Statement;
+function single(replaced: Statement | Statement[] | null, slot: string, nullable: boolean): Statement | null {
+  const stmt = Array.isArray(replaced) ? (replaced.length === 1 ? replaced[0] : undefined) : replaced;
+  if (stmt === undefined || (stmt === null && !nullable)) {
+    throw new Error(`${slot} 자리에는 문장 하나만 올 수 있습니다`);
+  }
+  return stmt;
+}
@@ -1,3 +1,27 @@
 export * from './Expression.js';
 export * from './Statement.js';
-export { Parser, ParserError } from './Parser.js';
+export { Parser, ParserError, type ParseResult } from './Parser.js';
+export { Formatter, type FormatterOptions } from './Formatter.js';
+export {
+  astToJSON,
+  astFromJSON,
+  AstValidationError,
+  AST_SCHEMA_VERSION,
+  type AstDocument,
+  type AstJsonOptions,
+} from './AstJson.js';
+export {
+  forEachChild,
+  walkStatements,
+  walkNode,
+  transformStatements,
+  transformStatement,
+  transformExpression,
+  isExpression,
+  isStatement,
+  type AstNode,
+  type AstVisitor,
+  type AstTransformer,
+  type StatementHandlers,
+  type ExpressionHandlers,
+} from './Visitor.js';
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { run } from '../index.js';
+import { getBuiltin, callBuiltin, listBuiltins } from './Builtins.js';
+import { ErrorType } from './SongError.js';
+
+function call(name: string, ...args: unknown[]): unknown {
+  return callBuiltin(getBuiltin(name)!, args, 3, 7);
+}
+
+describe('Builtins', () => {
+  it('수 함수', () => {
+    expect(call('MIN', 4, [2, 9])).toBe(2);
+    expect(call('MAX', 4, [2, 9])).toBe(9);
+    expect([call('ABS', -3), call('FLOOR', 2.7), call('ROUND', 2.5), call('CLAMP', 12, 0, 10)]).toEqual([3, 2, 3, 10]);
+  });
+
+  it('문자열과 타입 함수', () => {
+    expect([call('LEN', 'abc'), call('LEN', [1, 2])]).toEqual([3, 2]);
+    expect([call('UPPER', 'Hi'), call('LOWER', 'Hi')]).toEqual(['HI', 'hi']);
+    expect([call('SUBSTR', 'hello', 1), call('SUBSTR', 'hello', 1, 3)]).toEqual(['ello', 'ell']);
+    expect([call('TYPEOF', 1), call('TYPEOF', 'a'), call('TYPEOF', [1]), call('TYPEOF', true)]).toEqual([
+      'Number',
+      'String',
+      'List',
+      'Boolean',
+    ]);
+  });
+
+  it('이름은 대소문자를 가리지 않는다', () => {
+    expect(getBuiltin('clamp')).toBe(getBuiltin('CLAMP'));
+    expect(getBuiltin('NOPE')).toBeNull();
+  });
+
+  it('인자 개수와 타입 오류는 호출 위치로 보고한다', () => {
+    expect(() => call('ABS')).toThrow(expect.objectContaining({ type: ErrorType.InvalidOperand, line: 3, column: 7 }));
+    expect(() => call('ABS', 'x')).toThrow(expect.objectContaining({ type: ErrorType.TypeMismatch, line: 3, column: 7 }));
+    expect(() => call('CLAMP', 1, 5, 0)).toThrow(expect.objectContaining({ type: ErrorType.InvalidOperand }));
+    expect(() => call('SUBSTR', 'abc', 9)).toThrow(expect.objectContaining({ type: ErrorType.InvalidOperand }));
+  });
+
+  it('표현식에서 호출한다', () => {
+    const { output } = run('Hero HAS HP 120\n"{CLAMP(Hero.HP, 0, 100)} {UPPER(SUBSTR("song", 0, 1))} {TYPEOF(Hero)}" PRINT');
+    expect(output).toEqual(['100 S Node']);
+    expect(() => run('\nLEN(5) PRINT')).toThrow(expect.objectContaining({ type: ErrorType.TypeMismatch, line: 2 }));
+  });
+
+  it('자동 완성용 목록은 시그니처를 포함한다', () => {
+    const builtins = listBuiltins();
+    expect(builtins.map((fn) => fn.name)).toContain('TYPEOF');
+    expect(builtins.find((fn) => fn.name === 'SUBSTR')!.signature).toBe('SUBSTR(text, start, [length])');
+    expect(builtins.find((fn) => fn.name === 'MAX')!.signature).toBe('MAX(values...)');
+  });
+});
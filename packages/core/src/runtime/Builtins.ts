@@ -0,0 +1,251 @@
+import { SongNode } from './Node.js';
+import { RelationEdge } from './Edge.js';
+import { SongError, ErrorType } from './SongError.js';
+
+/**
+ * 내장 함수 인자 타입 (Any는 모든 값)
+ */
+export type BuiltinArgType = 'Number' | 'String' | 'List' | 'Any';
+
+/**
+ * 내장 함수 매개변수
+ */
+export interface BuiltinParameter {
+  readonly name: string;
+  readonly types: readonly BuiltinArgType[];
+  readonly optional?: boolean;
+  /** 마지막 매개변수에만 사용: 남은 인자를 모두 받는다 */
+  readonly variadic?: boolean;
+}
+
+/**
+ * 내장 함수 정의
+ * call은 타입 검사를 통과한 인자만 받는다.
+ */
+export interface BuiltinFunction {
+  readonly name: string;
+  readonly parameters: readonly BuiltinParameter[];
+  readonly description: string;
+  readonly call: (args: unknown[]) => unknown;
+}
+
+/**
+ * 자동 완성 등에 쓰는 내장 함수 정보
+ */
+export interface BuiltinInfo {
+  readonly name: string;
+  /** 예: CLAMP(value, min, max), SUBSTR(text, start, [length]) */
+  readonly signature: string;
+  readonly description: string;
+}
+
+/**
+ * 값의 Song 타입 이름 (TYPEOF 결과)
+ */
+export function songTypeOf(value: unknown): string {
+  if (value instanceof SongNode) return 'Node';
+  if (value instanceof RelationEdge) return 'Edge';
+  if (Array.isArray(value)) return 'List';
+  if (typeof value === 'number') return 'Number';
+  if (typeof value === 'string') return 'String';
+  if (typeof value === 'boolean') return 'Boolean';
+  return 'Null';
+}
+
+const BUILTINS: readonly BuiltinFunction[] = [
+  {
+    name: 'MIN',
+    parameters: [{ name: 'values', types: ['Number', 'List'], variadic: true }],
+    description: 'Smallest number (list arguments are expanded)',
+    call: (args) => Math.min(...numbersOf('MIN', args)),
+  },
+  {
+    name: 'MAX',
+    parameters: [{ name: 'values', types: ['Number', 'List'], variadic: true }],
+    description: 'Largest number (list arguments are expanded)',
+    call: (args) => Math.max(...numbersOf('MAX', args)),
+  },
+  {
+    name: 'ABS',
+    parameters: [{ name: 'value', types: ['Number'] }],
+    description: 'Absolute value',
+    call: ([value]) => Math.abs(value as number),
+  },
+  {
+    name: 'FLOOR',
+    parameters: [{ name: 'value', types: ['Number'] }],
+    description: 'Round down',
+    call: ([value]) => Math.floor(value as number),
+  },
+  {
+    name: 'ROUND',
+    parameters: [{ name: 'value', types: ['Number'] }],
+    description: 'Round to the nearest integer',
+    call: ([value]) => Math.round(value as number),
+  },
+  {
+    name: 'CLAMP',
+    parameters: [
+      { name: 'value', types: ['Number'] },
+      { name: 'min', types: ['Number'] },
+      { name: 'max', types: ['Number'] },
+    ],
+    description: 'Limit value to the range min..max',
+    call: ([value, min, max]) => {
+      if ((min as number) > (max as number)) {
+        throw invalidOperand(`CLAMP min ${min} is greater than max ${max}`);
+      }
+      return Math.min(Math.max(value as number, min as number), max as number);
+    },
+  },
+  {
+    name: 'LEN',
+    parameters: [{ name: 'value', types: ['String', 'List'] }],
+    description: 'Length of a string or list',
+    call: ([value]) => (value as string | unknown[]).length,
+  },
+  {
+    name: 'UPPER',
+    parameters: [{ name: 'text', types: ['String'] }],
+    description: 'Convert to upper case',
+    call: ([text]) => (text as string).toUpperCase(),
+  },
+  {
+    name: 'LOWER',
+    parameters: [{ name: 'text', types: ['String'] }],
+    description: 'Convert to lower case',
+    call: ([text]) => (text as string).toLowerCase(),
+  },
+  {
+    name: 'SUBSTR',
+    parameters: [
+      { name: 'text', types: ['String'] },
+      { name: 'start', types: ['Number'] },
+      { name: 'length', types: ['Number'], optional: true },
+    ],
+    description: 'Substring from start (0-based), up to length characters',
+    call: ([text, start, length]) => {
+      const str = text as string;
+      const from = start as number;
+      if (!Number.isInteger(from) || from < 0 || from > str.length) {
+        throw invalidOperand(`SUBSTR start ${from} is out of range (0-${str.length})`);
+      }
+      if (length === undefined) {
+        return str.slice(from);
+      }
+      const count = length as number;
+      if (!Number.isInteger(count) || count < 0) {
+        throw invalidOperand(`SUBSTR length must be a non-negative integer, got ${count}`);
+      }
+      return str.slice(from, from + count);
+    },
+  },
+  {
+    name: 'TYPEOF',
+    parameters: [{ name: 'value', types: ['Any'] }],
+    description: 'Type name: Number, String, Boolean, List, Node or Edge',
+    call: ([value]) => songTypeOf(value),
+  },
+];
+
+const BUILTINS_BY_NAME: ReadonlyMap<string, BuiltinFunction> = new Map(BUILTINS.map((fn) => [fn.name, fn]));
+
+/**
+ * 이름으로 내장 함수 찾기 (대소문자 무시)
+ */
+export function getBuiltin(name: string): BuiltinFunction | null {
+  return BUILTINS_BY_NAME.get(name.toUpperCase()) ?? null;
+}
+
+/**
+ * 모든 내장 함수 정보 (자동 완성용)
+ */
+export function listBuiltins(): BuiltinInfo[] {
+  return BUILTINS.map((fn) => ({
+    name: fn.name,
+    signature: `${fn.name}(${fn.parameters.map(formatParameter).join(', ')})`,
+    description: fn.description,
+  }));
+}
+
+/**
+ * 인자 개수와 타입을 검사한 뒤 호출
+ * 오류는 호출 위치(line, column)의 SongError로 보고한다.
+ */
+export function callBuiltin(fn: BuiltinFunction, args: unknown[], line: number, column: number): unknown {
+  try {
+    checkArity(fn, args.length);
+    args.forEach((arg, i) => checkType(fn, parameterAt(fn, i), arg));
+    return fn.call(args);
+  } catch (e) {
+    if (e instanceof SongError) {
+      throw new SongError(e.type, e.message, line, column);
+    }
+    throw e;
+  }
+}
+
+function checkArity(fn: BuiltinFunction, count: number): void {
+  const required = fn.parameters.filter((p) => !p.optional && !p.variadic).length;
+  const variadic = fn.parameters.some((p) => p.variadic);
+  const max = variadic ? Infinity : fn.parameters.length;
+  const min = variadic ? Math.max(required, 1) : required;
+
+  if (count >= min && count <= max) return;
+
+  let expected: string;
+  if (max === Infinity) {
+    expected = `at least ${min}`;
+  } else if (min === max) {
+    expected = `${min}`;
+  } else {
+    expected = `${min} to ${max}`;
+  }
+  const noun = expected === '1' || expected === 'at least 1' ? 'argument' : 'arguments';
+  throw invalidOperand(`${fn.name} expects ${expected} ${noun}, got ${count}`);
+}
+
+function parameterAt(fn: BuiltinFunction, index: number): BuiltinParameter {
+  const params = fn.parameters;
+  return index < params.length ? params[index] : params[params.length - 1];
+}
+
+function checkType(fn: BuiltinFunction, param: BuiltinParameter, value: unknown): void {
+  if (param.types.includes('Any')) return;
+
+  const type = songTypeOf(value);
+  if (!(param.types as readonly string[]).includes(type)) {
+    throw new SongError(
+      ErrorType.TypeMismatch,
+      `${fn.name} argument "${param.name}" must be ${param.types.join(' or ')}, got ${type}`,
+      0,
+      0
+    );
+  }
+}
+
+/**
+ * MIN / MAX 인자: 숫자와 리스트 원소를 하나의 숫자 목록으로
+ */
+function numbersOf(name: string, args: unknown[]): number[] {
+  const values = args.flatMap((arg) => (Array.isArray(arg) ? arg : [arg]));
+  if (values.length === 0) {
+    throw invalidOperand(`${name} needs at least one value`);
+  }
+  for (const value of values) {
+    if (typeof value !== 'number') {
+      throw new SongError(ErrorType.TypeMismatch, `${name} values must be Number, got ${songTypeOf(value)}`, 0, 0);
+    }
+  }
+  return values as number[];
+}
+
+function invalidOperand(message: string): SongError {
+  return new SongError(ErrorType.InvalidOperand, message, 0, 0);
+}
+
+function formatParameter(param: BuiltinParameter): string {
+  if (param.variadic) return `${param.name}...`;
+  if (param.optional) return `[${param.name}]`;
+  return param.name;
+}
@@ -0,0 +1,46 @@
+import { SongNode } from './Node.js';
+
+/**
+ * 사용자 정의 관계 간선 (source RELATION target)
+ * 간선 자체도 속성을 가질 수 있다: Alice TRUSTS Bob WITH Level 3
+ */
+export class RelationEdge {
+  readonly source: SongNode;
+  readonly relation: string;
+  readonly target: SongNode;
+
+  /**
+   * WITH로 지정된 간선 속성들 (Property -> Value)
+   */
+  readonly properties: Map<string, unknown> = new Map();
+
+  /**
+   * 관계 성질(SYMMETRIC, INVERSE, TRANSITIVE)이나 규칙(RULE)에서 유도된 간선인지 여부
+   * 유도된 간선은 성질, 규칙의 전제나 원래 간선이 바뀌면 다시 계산된다.
+   */
+  derived = false;
+
+  constructor(source: SongNode, relation: string, target: SongNode) {
+    this.source = source;
+    this.relation = relation;
+    this.target = target;
+  }
+
+  /**
+   * 속성 값 가져오기 (없으면 null)
+   */
+  getProperty(name: string): unknown {
+    return this.properties.get(name) ?? null;
+  }
+
+  /**
+   * 속성 값 설정하기
+   */
+  setProperty(name: string, value: unknown): void {
+    this.properties.set(name, value);
+  }
+
+  toString(): string {
+    return `${this.source.name} ${this.relation} ${this.target.name}`;
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { Graph } from './Graph.js';
+
+describe('Graph', () => {
+  describe('관계 간선', () => {
+    it('관계마다 여러 대상을 가지며 같은 간선은 하나만 둔다', () => {
+      const graph = new Graph();
+      const alice = graph.getOrCreateNode('Alice');
+      const bob = graph.getOrCreateNode('Bob');
+      const carol = graph.getOrCreateNode('Carol');
+
+      const first = graph.addEdge(alice, 'LIKES', bob);
+      graph.addEdge(alice, 'LIKES', carol);
+      graph.addEdge(carol, 'OWNS', bob);
+      expect(graph.addEdge(alice, 'LIKES', bob)).toBe(first);
+
+      expect(graph.outgoing(alice).map((edge) => edge.toString())).toEqual(['Alice LIKES Bob', 'Alice LIKES Carol']);
+      expect(graph.incoming(bob).map((edge) => edge.toString())).toEqual(['Alice LIKES Bob', 'Carol OWNS Bob']);
+      expect(graph.incoming(bob, 'OWNS').map((edge) => edge.source.name)).toEqual(['Carol']);
+    });
+
+    it('간선을 지우면 양쪽 목록에서 모두 빠진다', () => {
+      const graph = new Graph();
+      const alice = graph.getOrCreateNode('Alice');
+      const bob = graph.getOrCreateNode('Bob');
+      graph.addEdge(alice, 'LIKES', bob);
+
+      expect(graph.removeEdge(alice, 'LIKES', bob)).toBe(true);
+      expect(graph.removeEdge(alice, 'LIKES', bob)).toBe(false);
+      expect(graph.outgoing(alice)).toEqual([]);
+      expect(graph.incoming(bob)).toEqual([]);
+      expect(graph.findEdge(alice, 'LIKES', bob)).toBeNull();
+    });
+
+    it('toJSON은 IS 간선과 관계 간선을 관계 이름과 함께 내보낸다', () => {
+      const graph = new Graph();
+      const orc = graph.getOrCreateNode('Orc');
+      const cave = graph.getOrCreateNode('Cave');
+      orc.addParent(graph.getOrCreateNode('Monster'));
+      graph.addEdge(orc, 'LOCATED_IN', cave).setProperty('Since', 3);
+
+      expect(graph.toJSON().edges).toEqual([
+        { source: 'Orc', target: 'Monster', type: 'IS' },
+        { source: 'Orc', target: 'Cave', type: 'LOCATED_IN', properties: { Since: 3 } },
+      ]);
+    });
+  });
+});
@@ -1,4 +1,65 @@
-import { SongNode } from './Node.js';
+import { SongNode, NodeMutation } from './Node.js';
+import { RelationEdge } from './Edge.js';
+
+/**
+ * 노드 이름 정규화 (NFC)
+ * 조합형/완성형 한글처럼 코드 포인트가 달라도 같은 문자열이면 같은 노드가 된다.
+ */
+function normalizeName(name: string): string {
+  return name.normalize('NFC');
+}
+
+/**
+ * 직렬화할 속성만 추림 (내부 속성 및 노드 참조 제외)
+ */
+function visibleProperties(source: Map<string, unknown>): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const [key, value] of source) {
+    if (!key.startsWith('_') && !(value instanceof SongNode)) {
+      properties[key] = Array.isArray(value) ? value.map(toJSONValue) : value;
+    }
+  }
+  return properties;
+}
+
+/**
+ * 리스트 요소 변환 (노드 참조는 이름으로)
+ */
+function toJSONValue(value: unknown): unknown {
+  if (value instanceof SongNode) return value.name;
+  if (Array.isArray(value)) return value.map(toJSONValue);
+  return value;
+}
+
+/**
+ * 그래프 변경 내용: 노드의 속성/부모 변경 또는 간선 추가/제거
+ */
+export type GraphMutation = NodeMutation | { readonly kind: 'edge'; readonly edge: RelationEdge; readonly added: boolean };
+
+/**
+ * 노드의 부모, 속성, 간선 순서 (Graph.captureOrder로 기억하고 restoreOrder로 되돌린다)
+ */
+export interface NodeOrder {
+  readonly node: SongNode;
+  readonly parents: readonly SongNode[];
+  readonly properties: readonly string[];
+  readonly outgoing: readonly string[];
+  readonly incoming: readonly string[];
+}
+
+function edgeKey(relation: string, node: SongNode): string {
+  return JSON.stringify([relation, node.name]);
+}
+
+/**
+ * order에 있던 항목은 그 순서대로 앞에, 없던 항목은 지금 순서대로 뒤에 둔다
+ */
+function sortByOrder<T, K>(items: readonly T[], order: readonly K[], key: (item: T) => K): T[] {
+  const rank = new Map(order.map((k, i) => [k, i]));
+  const known = items.filter((item) => rank.has(key(item)));
+  known.sort((a, b) => rank.get(key(a))! - rank.get(key(b))!);
+  return [...known, ...items.filter((item) => !rank.has(key(item)))];
+}
 
 /**
  * Song 언어의 그래프
@@ -7,14 +68,31 @@ import { SongNode } from './Node.js';
 export class Graph {
   private readonly nodes: Map<string, SongNode> = new Map();
 
+  /**
+   * 사용자 정의 관계 간선 (출발 노드 -> 간선들, 도착 노드 -> 간선들)
+   */
+  private readonly outgoingEdges: Map<SongNode, RelationEdge[]> = new Map();
+  private readonly incomingEdges: Map<SongNode, RelationEdge[]> = new Map();
+
+  private mutationListener: ((mutation: GraphMutation) => void) | null = null;
+
+  /**
+   * 노드 속성, 부모, 간선이 바뀔 때 호출할 함수 설정 (null이면 해제)
+   */
+  setMutationListener(listener: ((mutation: GraphMutation) => void) | null): void {
+    this.mutationListener = listener;
+  }
+
   /**
    * 노드 가져오기 (없으면 생성)
    */
   getOrCreateNode(name: string): SongNode {
-    let node = this.nodes.get(name);
+    const key = normalizeName(name);
+    let node = this.nodes.get(key);
     if (!node) {
-      node = new SongNode(name);
-      this.nodes.set(name, node);
+      node = new SongNode(key);
+      node.onMutation = (mutation) => this.mutationListener?.(mutation);
+      this.nodes.set(key, node);
     }
     return node;
   }
@@ -23,14 +101,14 @@ export class Graph {
    * 노드 가져오기 (없으면 null)
    */
   getNode(name: string): SongNode | null {
-    return this.nodes.get(name) ?? null;
+    return this.nodes.get(normalizeName(name)) ?? null;
   }
 
   /**
    * 노드 존재 여부 확인
    */
   hasNode(name: string): boolean {
-    return this.nodes.has(name);
+    return this.nodes.has(normalizeName(name));
   }
 
   /**
@@ -47,11 +125,130 @@ export class Graph {
     return this.nodes.size;
   }
 
+  /**
+   * 관계 간선 추가 (같은 간선이 이미 있으면 기존 간선 반환)
+   */
+  addEdge(source: SongNode, relation: string, target: SongNode): RelationEdge {
+    const existing = this.findEdge(source, relation, target);
+    if (existing !== null) {
+      return existing;
+    }
+
+    const edge = new RelationEdge(source, relation, target);
+    this.edgeList(this.outgoingEdges, source).push(edge);
+    this.edgeList(this.incomingEdges, target).push(edge);
+    this.mutationListener?.({ kind: 'edge', edge, added: true });
+    return edge;
+  }
+
+  /**
+   * 관계 간선 제거
+   */
+  removeEdge(source: SongNode, relation: string, target: SongNode): boolean {
+    const edge = this.findEdge(source, relation, target);
+    if (edge === null) {
+      return false;
+    }
+
+    this.removeFromList(this.outgoingEdges, source, edge);
+    this.removeFromList(this.incomingEdges, target, edge);
+    this.mutationListener?.({ kind: 'edge', edge, added: false });
+    return true;
+  }
+
+  /**
+   * 관계 간선 찾기 (없으면 null)
+   */
+  findEdge(source: SongNode, relation: string, target: SongNode): RelationEdge | null {
+    const edges = this.outgoingEdges.get(source) ?? [];
+    return edges.find((e) => e.relation === relation && e.target === target) ?? null;
+  }
+
+  /**
+   * 노드에서 나가는 간선들 (relation을 주면 해당 관계만)
+   */
+  outgoing(source: SongNode, relation?: string): RelationEdge[] {
+    const edges = this.outgoingEdges.get(source) ?? [];
+    return relation === undefined ? [...edges] : edges.filter((e) => e.relation === relation);
+  }
+
+  /**
+   * 노드로 들어오는 간선들 (relation을 주면 해당 관계만)
+   */
+  incoming(target: SongNode, relation?: string): RelationEdge[] {
+    const edges = this.incomingEdges.get(target) ?? [];
+    return relation === undefined ? [...edges] : edges.filter((e) => e.relation === relation);
+  }
+
+  /**
+   * 모든 관계 간선들 (출발 노드 생성 순서)
+   */
+  get allEdges(): RelationEdge[] {
+    return this.allNodes.flatMap((node) => this.outgoingEdges.get(node) ?? []);
+  }
+
+  /**
+   * 노드의 부모, 속성, 간선 순서 기억하기
+   */
+  captureOrder(node: SongNode): NodeOrder {
+    return {
+      node,
+      parents: [...node.parents],
+      properties: [...node.properties.keys()],
+      outgoing: (this.outgoingEdges.get(node) ?? []).map((e) => edgeKey(e.relation, e.target)),
+      incoming: (this.incomingEdges.get(node) ?? []).map((e) => edgeKey(e.relation, e.source)),
+    };
+  }
+
+  /**
+   * captureOrder로 기억한 순서로 되돌리기
+   * 지금 있는 항목의 자리만 바꾸고 기억에 없던 항목은 뒤에 둔다. 내용은 그대로이므로 변경을 알리지 않는다.
+   */
+  restoreOrder(order: NodeOrder): void {
+    const { node } = order;
+    node.parents.splice(0, node.parents.length, ...sortByOrder(node.parents, order.parents, (p) => p));
+
+    const properties = sortByOrder([...node.properties], order.properties, ([key]) => key);
+    node.properties.clear();
+    properties.forEach(([key, value]) => node.properties.set(key, value));
+
+    const outgoing = this.outgoingEdges.get(node);
+    if (outgoing) {
+      const sorted = sortByOrder(outgoing, order.outgoing, (e) => edgeKey(e.relation, e.target));
+      outgoing.splice(0, outgoing.length, ...sorted);
+    }
+    const incoming = this.incomingEdges.get(node);
+    if (incoming) {
+      const sorted = sortByOrder(incoming, order.incoming, (e) => edgeKey(e.relation, e.source));
+      incoming.splice(0, incoming.length, ...sorted);
+    }
+  }
+
+  private edgeList(index: Map<SongNode, RelationEdge[]>, node: SongNode): RelationEdge[] {
+    let list = index.get(node);
+    if (!list) {
+      list = [];
+      index.set(node, list);
+    }
+    return list;
+  }
+
+  private removeFromList(index: Map<SongNode, RelationEdge[]>, node: SongNode, edge: RelationEdge): void {
+    const list = index.get(node);
+    if (!list) return;
+
+    const i = list.indexOf(edge);
+    if (i !== -1) list.splice(i, 1);
+    if (list.length === 0) index.delete(node);
+  }
+
   /**
    * 그래프 초기화
    */
   clear(): void {
     this.nodes.clear();
+    this.outgoingEdges.clear();
+    this.incomingEdges.clear();
   }
 
   /**
@@ -69,23 +266,20 @@ export class Graph {
     const edges: EdgeData[] = [];
 
     for (const node of this.allNodes) {
-      const properties: Record<string, unknown> = {};
-      for (const [key, value] of node.properties) {
-        // 내부 속성 및 노드 참조 제외
-        if (!key.startsWith('_') && !(value instanceof SongNode)) {
-          properties[key] = value;
-        }
-      }
+      const properties = visibleProperties(node.properties);
 
       // 능력 목록 가져오기
       const abilitiesSet = node.properties.get('_Abilities') as Set<string> | undefined;
       const abilities = abilitiesSet ? Array.from(abilitiesSet) : [];
 
+      const derivedProperties = [...node.derivedProperties].filter((key) => key in properties);
+
       nodes.push({
         id: node.name,
         name: node.name,
         properties,
         abilities,
+        ...(derivedProperties.length > 0 ? { derivedProperties } : {}),
       });
 
       // IS 관계 (부모)
@@ -94,6 +288,18 @@ export class Graph {
           source: node.name,
           target: parent.name,
           type: 'IS',
+          ...(node.derivedParents.has(parent) ? { derived: true } : {}),
+        });
+      }
+
+      // 사용자 정의 관계
+      for (const edge of this.outgoingEdges.get(node) ?? []) {
+        edges.push({
+          source: node.name,
+          target: edge.target.name,
+          type: edge.relation,
+          properties: visibleProperties(edge.properties),
+          ...(edge.derived ? { derived: true } : {}),
         });
       }
     }
@@ -107,12 +313,18 @@ export interface NodeData {
   name: string;
   properties: Record<string, unknown>;
   abilities: string[];
+  /** 규칙에서 유도된 속성 이름 */
+  derivedProperties?: string[];
 }
 
 export interface EdgeData {
   source: string;
   target: string;
   type: string;
+  /** 간선 속성 (사용자 정의 관계만) */
+  properties?: Record<string, unknown>;
+  /** 관계 성질이나 규칙에서 유도된 간선 (IS 간선은 규칙만) */
+  derived?: boolean;
 }
 
 export interface GraphData {
@@ -0,0 +1,614 @@
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../tokenizer/Tokenizer.js';
+import { Parser } from '../parser/Parser.js';
+import { Interpreter, InterpreterOptions } from './Interpreter.js';
+import { SongError, ErrorType } from './SongError.js';
+
+function run(source: string, options: InterpreterOptions = {}): { interpreter: Interpreter; output: string[] } {
+  const output: string[] = [];
+  const interpreter = new Interpreter({ ...options, onOutput: (line) => output.push(line) });
+  const tokens = new Tokenizer(source).tokenize();
+  const statements = new Parser(tokens).parse();
+  interpreter.setSource(tokens, statements);
+  interpreter.execute(statements);
+  return { interpreter, output };
+}
+
+function graphLines(source: string): string[] {
+  const { output } = run(`${source}\nDEBUG GRAPH`);
+  return output.slice(output.lastIndexOf('--- Graph State ---'));
+}
+
+function errorType(source: string): ErrorType | null {
+  try {
+    run(source);
+    return null;
+  } catch (error) {
+    return error instanceof SongError ? error.type : null;
+  }
+}
+
+describe('Interpreter', () => {
+  describe('문자열', () => {
+    it('보간과 이스케이프를 출력한다', () => {
+      const { output } = run('Player HAS HP 42\n"HP: {Player.HP + 1} \\"ok\\"" PRINT');
+      expect(output).toEqual(['HP: 43 "ok"']);
+    });
+
+    it('문자열 더하기는 양쪽 값을 문자열로 바꿔 잇는다', () => {
+      const { output } = run('Hero HAS HP 3\nLET s = "hp: " + Hero\ns PRINT\n("n: " + [1, 2]) PRINT');
+      expect(output).toEqual(['hp: Hero', 'n: [1, 2]']);
+    });
+  });
+
+  describe('유니코드 이름', () => {
+    it('NFC로 정규화한 이름으로 같은 노드를 찾는다', () => {
+      const { output, interpreter } = run('용사 HAS 체력 100\n용사.체력 PRINT');
+      expect(output).toEqual(['100']);
+      expect(interpreter.graph.getNode('\u110b\u116d\u11bc\u1109\u1161')).toBe(interpreter.graph.getNode('용사'));
+    });
+  });
+
+  describe('DEBUG', () => {
+    it('TOKENS와 AST는 비어 있어도 닫는 줄을 출력한다', () => {
+      const output: string[] = [];
+      const interpreter = new Interpreter({ onOutput: (line) => output.push(line) });
+      interpreter.dumpTokens();
+      interpreter.dumpAst();
+      interpreter.dumpGraph();
+      expect(output).toEqual([
+        '--- Tokens ---',
+        '(empty)',
+        '--------------',
+        '--- AST ---',
+        '(empty)',
+        '-----------',
+        '--- Graph State ---',
+        '(empty)',
+      ]);
+    });
+  });
+
+  describe('관계 간선', () => {
+    it('RELATION 노드가 없는 관계는 숨은 속성 대신 간선으로 저장한다', () => {
+      const { interpreter } = run('Alice OWNS Sword\nAlice OWNS Shield\nSword LOCATED_IN Armory');
+      const alice = interpreter.graph.getNode('Alice')!;
+      expect([...alice.properties.keys()]).toEqual([]);
+      expect(interpreter.graph.outgoing(alice, 'OWNS').map((edge) => edge.target.name)).toEqual(['Sword', 'Shield']);
+      expect(interpreter.graph.toJSON().edges.map((edge) => `${edge.source} ${edge.type} ${edge.target}`)).toEqual([
+        'Alice OWNS Sword',
+        'Alice OWNS Shield',
+        'Sword LOCATED_IN Armory',
+      ]);
+    });
+  });
+
+  describe('간선 속성', () => {
+    const ROADS = 'Alice TRUSTS Bob WITH Level 3, Note "old friend"\nAlice TRUSTS Carol WITH Level (1 + 1)';
+
+    it('WITH 속성을 간선에 저장하고 표현식으로 읽는다', () => {
+      const { output, interpreter } = run(`${ROADS}\n"{Alice.TRUSTS[Bob].Level} {Alice.TRUSTS[Carol].Level}" PRINT`);
+      expect(output).toEqual(['3 2']);
+      expect(interpreter.graph.toJSON().edges.map((edge) => edge.properties)).toEqual([
+        { Level: 3, Note: 'old friend' },
+        { Level: 2 },
+      ]);
+    });
+
+    it('없는 간선이나 간선 속성은 오류', () => {
+      expect(errorType(`${ROADS}\nAlice.TRUSTS[Alice].Level PRINT`)).toBe(ErrorType.PropertyNotFound);
+      expect(errorType(`${ROADS}\nAlice.TRUSTS[Bob].Weight PRINT`)).toBe(ErrorType.PropertyNotFound);
+      expect(() => run('Alice TRUSTS WITH Level 3')).toThrow(/대상이 필요합니다/);
+    });
+  });
+
+  describe('관계 성질', () => {
+    it('SYMMETRIC, INVERSE, TRANSITIVE 간선을 유도한다', () => {
+      const { interpreter } = run(`FRIEND_OF IS SYMMETRIC
+Alice FRIEND_OF Bob WITH Since 2020
+PARENT_OF INVERSE CHILD_OF
+Tom PARENT_OF Ann
+INSIDE IS TRANSITIVE
+Key INSIDE Box
+Box INSIDE Room`);
+      const derived = interpreter.graph
+        .toJSON()
+        .edges.filter((edge) => edge.derived)
+        .map((edge) => `${edge.source} ${edge.type} ${edge.target}`);
+      expect(derived).toEqual(['Bob FRIEND_OF Alice', 'Ann CHILD_OF Tom', 'Key INSIDE Room']);
+
+      // 대칭 간선은 간선 속성도 함께 가진다
+      const { output } = run('FRIEND_OF IS SYMMETRIC\nAlice FRIEND_OF Bob WITH Since 2020\nBob.FRIEND_OF[Alice].Since PRINT');
+      expect(output).toEqual(['2020']);
+    });
+
+    it('성질을 잃으면 유도된 간선도 사라진다', () => {
+      const { interpreter } = run('FRIEND_OF IS SYMMETRIC\nAlice FRIEND_OF Bob\nFRIEND_OF LOSES IS SYMMETRIC');
+      expect(interpreter.graph.allEdges.map((edge) => edge.derived)).toEqual([false]);
+    });
+  });
+
+  describe('리스트', () => {
+    const BAG = `Sword IS Item
+Player HAS Tags ["brave", "tired"]
+Player HAS Tags (Player.Tags + "lucky")
+Player HAS Bag [Sword, 2]`;
+
+    it('길이, 인덱스, CONTAINS, 더하기와 빼기', () => {
+      const { output } = run(`${BAG}
+"{Player.Tags.Length} {Player.Tags[0]} {Player.Tags CONTAINS "tired"} {Player.Tags CONTAINS "x"}" PRINT
+Player.Tags PRINT
+(Player.Tags - "brave") PRINT`);
+      expect(output).toEqual(['3 brave true false', '[brave, tired, lucky]', '[tired, lucky]']);
+    });
+
+    it('LOSES로 요소를 빼고, 그래프 출력과 JSON에 리스트로 보인다', () => {
+      const { interpreter } = run(`${BAG}\nPlayer LOSES Tags "tired"\nPlayer LOSES Bag Sword`);
+      expect(graphLines(`${BAG}\nPlayer LOSES Tags "tired"`)).toContain(
+        'Node(Player) { Tags=["brave", "lucky"], Bag=[→Sword, 2] }'
+      );
+      expect(interpreter.graph.toJSON().nodes.at(-1)!.properties).toEqual({ Tags: ['brave', 'lucky'], Bag: [2] });
+    });
+
+    it('범위를 벗어난 인덱스와 리스트가 아닌 값의 CONTAINS는 오류', () => {
+      expect(errorType(`${BAG}\nPlayer.Tags[3] PRINT`)).toBe(ErrorType.InvalidOperand);
+      expect(errorType(`${BAG}\n(5 CONTAINS 1) PRINT`)).toBe(ErrorType.TypeMismatch);
+    });
+  });
+
+  describe('LOSES', () => {
+    const BLESS = `BLESS IS RELATION
+BLESS HAS giver (Node)
+BLESS HAS receiver (Node)
+BLESS DO
+  receiver HAS Blessed 1
+END
+BLESS LOSES DO
+  receiver LOSES Blessed
+  "unblessed {receiver}" PRINT
+END`;
+
+    it('관계 간선을 하나 또는 전부 끊는다', () => {
+      const likes = 'Alice LIKES Bob\nAlice LIKES Carol';
+      expect(graphLines(`${likes}\nAlice LOSES LIKES Bob`)).toContain('Node(Alice) LIKES [Carol]');
+      expect(graphLines(`${likes}\nAlice LOSES LIKES`)).toContain('Node(Alice)');
+    });
+
+    it('맺은 관계마다 UNDO 본문을 실행한다', () => {
+      const { output, interpreter } = run(`${BLESS}
+Priest BLESS Hero
+Priest BLESS Sage
+Priest LOSES BLESS Hero
+Priest LOSES BLESS`);
+      expect(output).toEqual(['unblessed Hero', 'unblessed Sage']);
+      expect(interpreter.graph.getNode('Hero')!.hasOwnProperty('Blessed')).toBe(false);
+    });
+
+    it('맺지 않은 관계는 되돌리지 않고 노드도 만들지 않는다', () => {
+      const { output, interpreter } = run(`${BLESS}
+Priest LOSES BLESS
+Priest LOSES BLESS Zed
+Priest BLESS Hero
+Priest LOSES BLESS Hero
+Priest LOSES BLESS Hero`);
+      expect(output).toEqual(['unblessed Hero']);
+      expect(interpreter.graph.getNode('Zed')).toBeNull();
+    });
+
+    it('대칭 관계는 직접 맺은 짝 간선을 남긴다', () => {
+      const lines = graphLines(`FRIEND_OF IS SYMMETRIC
+Dan FRIEND_OF Eve
+Eve FRIEND_OF Dan
+Amy FRIEND_OF Bo
+Eve LOSES FRIEND_OF Dan
+Bo LOSES FRIEND_OF Amy`);
+      expect(lines).toContain('Node(Dan) FRIEND_OF [Eve]');
+      expect(lines).toContain('Node(Eve) FRIEND_OF [Dan*]');
+      expect(lines).toContain('Node(Amy)');
+      expect(lines).toContain('Node(Bo)');
+    });
+  });
+
+  describe('ALL', () => {
+    const MONSTERS = `Orc IS Monster
+Orc HAS HP 10
+Bat IS Monster
+Bat HAS HP 0
+Boss IS Orc
+Boss HAS HP 50`;
+
+    it('DO 본문을 인스턴스마다 실행하고 AS 이름으로 바인딩한다', () => {
+      const { output } = run(`${MONSTERS}
+ALL Monster AS m DO
+  m WHEN (m.HP > 0) DO
+    m HAS HP (m.HP + 5)
+  END
+END
+"{Orc.HP} {Bat.HP} {Boss.HP}" PRINT`);
+      expect(output).toEqual(['15 0 55']);
+    });
+
+    it('쿼리 결과에도 본문을 실행한다', () => {
+      const { output } = run(`${MONSTERS}
+?w IS Monster WHERE ?w.HP > 20
+ALL ?w AS r DO
+  LET tag = "big"
+  "{r} {tag}" PRINT
+END`);
+      expect(output).toEqual(['Query ?w: 1 nodes found', '  - Boss', 'Boss big']);
+    });
+  });
+
+  describe('EACH', () => {
+    const WORLD = `Orc IS Monster
+Bat IS Monster
+Boss IS Orc
+Player HAS Tags ["a", "b"]
+Player OWNS Sword
+Player OWNS Shield`;
+
+    function each(source: string): string[] {
+      return run(`${WORLD}\n${source} DO\n  x PRINT\nEND`).output;
+    }
+
+    it('직접 자식과 모든 자손을 그래프 순서로 돈다', () => {
+      expect(each('Monster EACH x')).toEqual(['Orc', 'Bat']);
+      expect(each('Monster EACH DEEP x')).toEqual(['Orc', 'Bat', 'Boss']);
+    });
+
+    it('쿼리 결과, 리스트 속성, 관계 대상을 돈다', () => {
+      expect(each('?m IS Orc\n?m EACH x').slice(-1)).toEqual(['Boss']);
+      expect(each('Player.Tags EACH x')).toEqual(['a', 'b']);
+      expect(each('Player.OWNS EACH x')).toEqual(['Sword', 'Shield']);
+    });
+
+    it('없는 컬렉션은 아무것도 하지 않는다', () => {
+      const { output, interpreter } = run('Nobody EACH x DO\n  x PRINT\nEND\n?none EACH x DO\n  x PRINT\nEND');
+      expect(output).toEqual([]);
+      expect(interpreter.graph.getNode('Nobody')).toBeNull();
+    });
+  });
+
+  describe('반복', () => {
+    it('WHILE은 조건이 거짓이 될 때까지, REPEAT은 정해진 횟수만큼 돈다', () => {
+      const { output } = run(`Hero HAS HP 5
+WHILE (Hero.HP > 0) DO
+  Hero HAS HP (Hero.HP - 2)
+END
+Hero.HP PRINT
+REPEAT 2 DO
+  "hi" PRINT
+END`);
+      expect(output).toEqual(['-1', 'hi', 'hi']);
+    });
+
+    it('최대 반복 횟수를 넘으면 멈추고 오류', () => {
+      expect(() => run('X HAS N 0\nWHILE (1) DO\n  X HAS N (X.N + 1)\nEND', { maxLoopIterations: 5 })).toThrow(
+        expect.objectContaining({ type: ErrorType.LoopLimitExceeded, line: 2 })
+      );
+      expect(errorType('REPEAT 6 DO\nEND')).toBeNull();
+      expect(() => run('REPEAT 6 DO\nEND', { maxLoopIterations: 5 })).toThrow(
+        expect.objectContaining({ type: ErrorType.LoopLimitExceeded })
+      );
+      expect(errorType('REPEAT (0 - 1) DO\nEND')).toBe(ErrorType.InvalidOperand);
+    });
+  });
+
+  describe('스코프와 함수', () => {
+    it('LET 변수는 블록이 끝나면 사라지고 SET은 바깥 변수를 바꾼다', () => {
+      const source = `Orc IS Monster
+Orc HAS HP 10
+Troll IS Monster
+Troll HAS HP 20
+LET total = 0
+Monster EACH m DO
+  LET hp = m.HP * 2
+  SET total = total + hp
+END
+"total {total}" PRINT
+REPEAT 1 DO
+  LET total = 1
+END
+total PRINT`;
+      expect(run(source).output).toEqual(['total 60', '60']);
+      expect(errorType('REPEAT 1 DO\n  LET k = 1\nEND\n"{k}" PRINT')).toBe(ErrorType.NodeNotFound);
+    });
+
+    it('노드가 아닌 변수는 관계의 주어가 될 수 없다', () => {
+      const { output, interpreter } = run('LET total = 5\ntotal PRINT');
+      expect(output).toEqual(['5']);
+      expect(interpreter.graph.getNode('total')).toBeNull();
+      expect(errorType('LET total = 5\ntotal HAS X 1')).toBe(ErrorType.TypeMismatch);
+      expect(errorType('LET total = 5\ntotal LIKES Bob')).toBe(ErrorType.TypeMismatch);
+    });
+
+    it('함수는 인자를 바인딩하고 재귀 호출할 수 있다', () => {
+      const source = `Player HAS Atk 12
+Goblin HAS Def 4
+FUNCTION CalcDamage(attacker, target) DO
+  RETURN attacker.Atk - target.Def
+END
+FUNCTION Fact(n) DO
+  Player WHEN (n <= 1) DO
+    RETURN 1
+  END
+  RETURN n * Fact(n - 1)
+END
+"{CalcDamage(Player, Goblin)} {Fact(5)}" PRINT`;
+      expect(run(source).output).toEqual(['8 120']);
+    });
+
+    it('함수 본문은 호출한 쪽의 지역 변수를 보지 못한다', () => {
+      const source = `FUNCTION Z() DO
+  RETURN z
+END
+REPEAT 1 DO
+  LET z = 1
+  Z() PRINT
+END`;
+      expect(errorType(source)).toBe(ErrorType.NodeNotFound);
+    });
+
+    it('호출 깊이 제한을 넘으면 오류', () => {
+      expect(() => run('FUNCTION F(n) DO\n  RETURN F(n)\nEND\nF(1) PRINT', { maxCallDepth: 20 })).toThrow(SongError);
+    });
+  });
+
+  describe('쿼리', () => {
+    const MONSTERS = `Orc IS Monster
+Orc HAS HP 10
+Bat IS Monster
+Bat HAS HP 3
+Rat IS Monster
+Rat HAS HP 3
+Troll IS Monster
+Troll HAS HP 40
+Cave IS Room
+Orc LOCATED_IN Cave
+Bat LOCATED_IN Cave`;
+
+    function results(source: string, variable: string): string[] {
+      const { interpreter } = run(`${MONSTERS}\n${source}`);
+      return interpreter.getQueryResults(variable).map((node) => node.name);
+    }
+
+    it('ORDER BY, LIMIT, OFFSET', () => {
+      expect(results('?m IS Monster ORDER BY ?m.HP LIMIT 3', 'm')).toEqual(['Bat', 'Rat', 'Orc']);
+      expect(results('?m IS Monster ORDER BY ?m.HP DESC, ?m LIMIT 2 OFFSET 1', 'm')).toEqual(['Orc', 'Bat']);
+    });
+
+    it('OR와 DISTINCT', () => {
+      expect(results('?x IS Monster OR ?x LOCATED_IN Cave', 'x')).toEqual([
+        'Orc',
+        'Orc',
+        'Monster',
+        'Bat',
+        'Bat',
+        'Rat',
+        'Troll',
+      ]);
+      expect(results('?x IS Monster OR ?x LOCATED_IN Cave DISTINCT', 'x')).toEqual(['Orc', 'Monster', 'Bat', 'Rat', 'Troll']);
+    });
+
+    it('NOT과 조인, WHERE', () => {
+      expect(results('?m IS Monster AND NOT ?m LOCATED_IN Cave WHERE ?m.HP > 5', 'm')).toEqual(['Troll']);
+      expect(results('?a LOCATED_IN ?r AND ?b LOCATED_IN ?r WHERE ?a != ?b', 'a')).toEqual(['Orc', 'Bat']);
+    });
+
+    it('결과는 그래프 노드가 아니라 인터프리터에 보관한다', () => {
+      const { interpreter } = run(`${MONSTERS}\n?m HAS HP 3`);
+      expect(interpreter.graph.getNode('?m')).toBeNull();
+      expect(interpreter.listQueryResults()).toEqual(['m']);
+      interpreter.clearQueryResults('m');
+      expect(interpreter.listQueryResults()).toEqual([]);
+    });
+
+    it('ALL은 실행하지 않은 쿼리와 결과가 없는 쿼리를 구분한다', () => {
+      const { output } = run('ALL ?x\n?x IS Dragon\nALL ?x');
+      expect(output).toEqual([
+        'ALL ?x: No query results found (run query first)',
+        'Query ?x: 0 nodes found',
+        'ALL ?x: 0 nodes found',
+      ]);
+    });
+  });
+
+  describe('집계', () => {
+    const PARTY = `Ann IS Hero
+Ann HAS Gold 30
+Ann HAS HP 10
+Bo IS Hero
+Bo HAS Gold 12
+Bo HAS HP 0
+Cy IS Bo
+Cy HAS Gold 3`;
+
+    it('타입의 인스턴스나 쿼리 결과에 대해 계산한다', () => {
+      const { output } = run(`${PARTY}
+"{COUNT Hero} {SUM Gold OF Hero} {AVG Gold OF Hero} {MIN Gold OF Hero} {MAX Gold OF Hero}" PRINT
+?alive IS Hero WHERE ?alive.HP > 0
+"{COUNT ?alive} {SUM Gold OF ?alive}" PRINT`);
+      expect(output.filter((line) => !line.startsWith('Query') && !line.startsWith('  -'))).toEqual([
+        '3 45 15 3 30',
+        '1 30',
+      ]);
+    });
+
+    it('WHEN 조건과 HAS 값에 쓸 수 있다', () => {
+      const { output, interpreter } = run(`${PARTY}
+Party HAS Total (SUM Gold OF Hero)
+Party WHEN (COUNT Hero > 2) DO
+  "big party" PRINT
+END`);
+      expect(output).toEqual(['big party']);
+      expect(interpreter.graph.getNode('Party')!.getProperty('Total')).toBe(45);
+    });
+
+    it('집계와 EACH DEEP은 인스턴스만, ALL과 IS 쿼리는 타입 노드도 센다', () => {
+      const { output } = run(`${PARTY}
+Hero HAS Gold 100
+(COUNT Hero) PRINT
+(SUM Gold OF Hero) PRINT
+Hero EACH DEEP h DO
+  h PRINT
+END
+ALL Hero
+?h IS Hero
+(COUNT ?h) PRINT`);
+      expect(output).toEqual([
+        '3',
+        '45',
+        'Ann',
+        'Bo',
+        'Cy',
+        'ALL Hero: 4 nodes found',
+        'Query ?h: 4 nodes found',
+        '  - Ann',
+        '  - Hero',
+        '  - Bo',
+        '  - Cy',
+        '4',
+      ]);
+    });
+
+    it('ALL 동작은 프로토타입에도 적용되어 나중에 만든 인스턴스가 물려받는다', () => {
+      const { output } = run('Goblin IS Monster\nALL Monster\nALL Monster HAS Alive 1\nOrc IS Monster\nOrc.Alive PRINT');
+      expect(output).toEqual(['ALL Monster: 2 nodes found', '1']);
+    });
+
+    it('값이 없거나 숫자가 아니면 오류', () => {
+      expect(errorType('(AVG Gold OF Nobody) PRINT')).toBe(ErrorType.InvalidOperand);
+      expect(errorType('A IS T\nA HAS Gold "x"\n(SUM Gold OF T) PRINT')).toBe(ErrorType.TypeMismatch);
+      expect(run('(SUM Gold OF Nobody) PRINT').output).toEqual(['0']);
+    });
+  });
+
+  describe('규칙', () => {
+    const RULES = `Orc IS Monster
+Orc HAS HP 0
+Bat IS Monster
+Bat HAS HP 5
+RULE ?x IS Undead WHEN ?x IS Monster AND ?x HAS HP 0
+RULE ?x HAS Status "dead" WHEN ?x IS Undead
+RULE ?x IS Weak WHEN ?x IS Monster AND NOT ?x IS Undead WHERE ?x.HP < 10`;
+
+    it('규칙 결론을 연쇄해서 유도한다', () => {
+      const lines = graphLines(RULES);
+      expect(lines).toContain('Node(Orc) IS Monster, Undead* { HP=0, Status*="dead" }');
+      expect(lines).toContain('Node(Bat) IS Monster, Weak* { HP=5 }');
+      expect(lines).toContain('(* = derived)');
+    });
+
+    it('전제가 사라지면 유도된 사실도 사라진다', () => {
+      const lines = graphLines(`${RULES}\nOrc HAS HP 7\nBat HAS HP 0`);
+      expect(lines).toContain('Node(Orc) IS Monster, Weak* { HP=7 }');
+      expect(lines).toContain('Node(Bat) IS Monster, Undead* { HP=0, Status*="dead" }');
+    });
+
+    it('그대로 유지되는 사실은 자리를 옮기지 않는다', () => {
+      const lines = graphLines(`Hero HAS HP 3
+Hero IS Person
+RULE ?x HAS Strong 1 WHEN ?x HAS HP 3
+RULE ?x IS Brave WHEN ?x IS Person
+RULE ?x KNOWS Sage WHEN ?x IS Person
+Hero KNOWS Bard
+Hero HAS MP 5
+Hero IS Mortal`);
+      expect(lines).toContain('Node(Hero) IS Person, Brave*, Mortal { HP=3, Strong*=1, MP=5 } KNOWS [Sage*, Bard]');
+    });
+
+    it('기본 속성을 가진 프로토타입에는 결론을 더하지 않는다', () => {
+      const source = `Monster HAS HP 0
+Goblin IS Monster
+Goblin HAS HP 5
+Slime IS Monster
+RULE ?x IS Undead WHEN ?x IS Monster AND ?x HAS HP 0
+RULE ?x HAS Status "dead" WHEN ?x HAS HP 0`;
+      const lines = graphLines(source);
+      expect(lines).toContain('Node(Monster) { HP=0 }');
+      expect(lines).toContain('Node(Goblin) IS Monster { HP=5 }');
+      expect(lines).toContain('Node(Slime) IS Monster, Undead* { Status*="dead" }');
+
+      expect(run(`${source}\n(COUNT Undead) PRINT`).output).toEqual(['1']);
+    });
+
+    it('그래프가 바뀐 문장 뒤에만 규칙을 다시 적용한다', () => {
+      const { output } = run(`FUNCTION Low(hp) DO
+  "check {hp}" PRINT
+  RETURN hp < 10
+END
+Bat IS Monster
+Bat HAS HP 5
+RULE ?x IS Weak WHEN ?x IS Monster WHERE Low(?x.HP)
+REPEAT 2 DO
+  "loop" PRINT
+END
+Bat HAS HP 20`);
+      // 결론을 더한 첫 적용은 고정점 확인으로 한 번 더 돈다
+      expect(output).toEqual(['check 5', 'check 5', 'loop', 'loop', 'check 20']);
+    });
+
+    it('직접 단언한 속성은 덮어쓰지 않는다', () => {
+      expect(graphLines(`${RULES}\nOrc HAS Status "alive"`)).toContain(
+        'Node(Orc) IS Monster, Undead* { HP=0, Status="alive" }'
+      );
+    });
+  });
+
+  describe('트리거', () => {
+    const GOBLIN = `Goblin IS Monster
+Goblin HAS HP 10
+Goblin HAS Loot "Gold"
+ON Monster.HP CHANGES AS m DO
+  "{m} HP now {m.HP}" PRINT
+  m WHEN (m.HP <= 0) DO
+    m IS Dead
+  END
+END
+ON ?x IS Dead DO
+  "{x} died, dropping {x.Loot}" PRINT
+  x LOSES Loot
+END`;
+
+    it('속성이 실제로 바뀔 때와 조건이 새로 성립할 때 실행한다', () => {
+      const { output } = run(`${GOBLIN}\nGoblin HAS HP 10\nGoblin HAS HP 5\nGoblin HAS HP 0`);
+      expect(output).toEqual(['Goblin HP now 5', 'Goblin HP now 0', 'Goblin died, dropping Gold']);
+    });
+
+    it('규칙이 다시 유도한 사실은 변경으로 보지 않는다', () => {
+      const { output } = run(`Hero HAS HP 3
+RULE ?x HAS Strong 1 WHEN ?x HAS HP 3
+ON Hero.Strong CHANGES DO
+  "strong changed" PRINT
+END
+Hero HAS MP 5
+Hero HAS HP 4
+Hero HAS HP 3`);
+      expect(output).toEqual(['strong changed', 'strong changed']);
+    });
+
+    it('그래프가 바뀐 문장 뒤에만 조건을 다시 확인한다', () => {
+      const { output } = run(`FUNCTION Low(hp) DO
+  "check {hp}" PRINT
+  RETURN hp < 10
+END
+Bat IS Monster
+Bat HAS HP 20
+ON ?x IS Monster WHERE Low(?x.HP) DO
+  "{x} is weak" PRINT
+END
+REPEAT 2 DO
+  "loop" PRINT
+END
+Bat HAS HP 5`);
+      expect(output).toEqual(['check 20', 'loop', 'loop', 'check 5', 'Bat is weak']);
+    });
+
+    it('연쇄 한도를 넘으면 오류', () => {
+      const source = 'X HAS N 0\nON X.N CHANGES DO\n  X HAS N (X.N + 1)\nEND\nX HAS N 1';
+      expect(() => run(source, { maxTriggerCascade: 5 })).toThrow(
+        expect.objectContaining({ type: ErrorType.TriggerCascadeExceeded })
+      );
+    });
+  });
+});
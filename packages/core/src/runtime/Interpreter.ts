@@ -2,6 +2,10 @@ import {
   Expression,
   BinaryOperator,
   UnaryOperator,
+  AggregateExpression,
+  AggregateFunction,
+  expressionToString,
+  aggregateToString,
 } from '../parser/Expression.js';
 import {
   Statement,
@@ -19,15 +23,46 @@ import {
   ChanceStatement,
   AllStatement,
   EachStatement,
+  WhileStatement,
+  RepeatStatement,
+  SetStatement,
+  FunctionStatement,
   QueryStatement,
+  RuleStatement,
+  OnStatement,
+  QueryClause,
+  QueryCondition,
   DebugTarget,
   LosesType,
+  EachSource,
   createRelationStmt,
+  statementToString,
 } from '../parser/Statement.js';
-import { Graph } from './Graph.js';
+import { SourceSpan, Token, tokenToString } from '../tokenizer/Token.js';
+import { Graph, GraphMutation } from './Graph.js';
 import { SongNode } from './Node.js';
+import { RelationEdge } from './Edge.js';
+import { Scope } from './Scope.js';
+import { getBuiltin, callBuiltin, songTypeOf } from './Builtins.js';
 import { SongError, ErrorType, InterpreterError } from './SongError.js';
 
+/**
+ * 관계 노드의 성질 (FRIEND_OF IS SYMMETRIC, INSIDE IS TRANSITIVE)
+ * 역관계는 PARENT_OF INVERSE CHILD_OF 간선으로 선언한다.
+ */
+const RELATION_TRAITS = ['SYMMETRIC', 'TRANSITIVE'];
+const INVERSE_RELATION = 'INVERSE';
+
+/**
+ * 관계 성질로 유도되는 간선 (대칭/역관계는 원래 간선의 속성을 복사한다)
+ */
+interface ImpliedEdge {
+  source: SongNode;
+  relation: string;
+  target: SongNode;
+  copyProperties: boolean;
+}
+
 /**
  * 출력 콜백 타입
  */
@@ -38,6 +73,107 @@ export type OutputCallback = (line: string) => void;
  */
 export interface InterpreterOptions {
   onOutput?: OutputCallback;
+  /** WHILE / REPEAT 한 번 실행에 허용되는 최대 반복 횟수 */
+  maxLoopIterations?: number;
+  /** 함수 호출의 최대 중첩 깊이 (재귀 제한) */
+  maxCallDepth?: number;
+  /** 트리거가 연쇄로 실행될 수 있는 최대 단계 수 */
+  maxTriggerCascade?: number;
+}
+
+/**
+ * 기본 최대 반복 횟수
+ */
+export const DEFAULT_MAX_LOOP_ITERATIONS = 10000;
+
+/**
+ * 기본 최대 함수 호출 깊이
+ */
+export const DEFAULT_MAX_CALL_DEPTH = 100;
+
+/**
+ * 기본 최대 트리거 연쇄 단계
+ */
+export const DEFAULT_MAX_TRIGGER_CASCADE = 100;
+
+/**
+ * 쿼리 변수 바인딩 (변수 이름 -> 노드)
+ */
+type QueryBindings = ReadonlyMap<string, SongNode>;
+
+/**
+ * 와일드카드 ?는 쿼리 안에서 이 이름의 변수 하나로 취급한다
+ */
+const WILDCARD_VARIABLE = '_';
+
+function bindQueryVariable(bindings: QueryBindings, name: string | null, node: SongNode): QueryBindings {
+  if (name === null || bindings.get(name) === node) return bindings;
+  return new Map(bindings).set(name, node);
+}
+
+function compareOrderKeys(a: number | string | null, b: number | string | null, expr: Expression): number {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  if (typeof a !== typeof b) {
+    throw new SongError(
+      ErrorType.TypeMismatch,
+      `Cannot order ${songTypeOf(a)} and ${songTypeOf(b)} together`,
+      expr.line,
+      expr.column
+    );
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * 같은 대상에 대한 변경을 첫 변경 하나로 합치고, 결과적으로 처음과 같아진 것은 버린다
+ */
+function netMutations(graph: Graph, mutations: GraphMutation[]): GraphMutation[] {
+  const first = new Map<string, GraphMutation>();
+  for (const mutation of mutations) {
+    const key =
+      mutation.kind === 'property'
+        ? [mutation.kind, mutation.node.name, mutation.property]
+        : mutation.kind === 'parent'
+          ? [mutation.kind, mutation.node.name, mutation.parent.name]
+          : [mutation.kind, mutation.edge.source.name, mutation.edge.relation, mutation.edge.target.name];
+    const id = JSON.stringify(key);
+    if (!first.has(id)) first.set(id, mutation);
+  }
+
+  const net: GraphMutation[] = [];
+  for (const mutation of first.values()) {
+    if (mutation.kind === 'property') {
+      if (mutation.node.properties.get(mutation.property) !== mutation.oldValue) net.push(mutation);
+    } else if (mutation.kind === 'parent') {
+      // 첫 변경이 제거였다면 처음에는 있었던 것
+      const added = mutation.node.parents.includes(mutation.parent);
+      if (added !== !mutation.added) net.push({ ...mutation, added });
+    } else {
+      const { source, relation, target } = mutation.edge;
+      const edge = graph.findEdge(source, relation, target);
+      if ((edge !== null) !== !mutation.added) {
+        net.push({ kind: 'edge', edge: edge ?? mutation.edge, added: edge !== null });
+      }
+    }
+  }
+  return net;
+}
+
+/**
+ * 규칙이 그래프에 더한 사실 (규칙을 다시 계산할 때 거둬들인다)
+ */
+type DerivedFact =
+  | { readonly kind: 'is'; readonly node: SongNode; readonly parent: SongNode }
+  | { readonly kind: 'has'; readonly node: SongNode; readonly property: string }
+  | { readonly kind: 'edge'; readonly edge: RelationEdge };
+
+/**
+ * RETURN으로 함수 본문을 빠져나갈 때 던지는 신호
+ */
+class ReturnSignal {
+  constructor(readonly value: unknown) {}
 }
 
 /**
@@ -46,19 +182,66 @@ export interface InterpreterOptions {
 export class Interpreter {
   private readonly _graph: Graph = new Graph();
   private readonly onOutput: OutputCallback;
+  private readonly maxLoopIterations: number;
+  private readonly maxCallDepth: number;
+  private readonly maxTriggerCascade: number;
+
+  // 블록 스코프 변수 (역할, WHEN 주어, EACH/ALL 변수, LET 변수)
+  private readonly scope: Scope = new Scope();
+
+  // 정의된 함수 (이름 -> FUNCTION 문장)
+  private readonly functions: Map<string, FunctionStatement> = new Map();
+  private callDepth = 0;
+
+  // 쿼리 결과 (쿼리 변수 이름 -> 결과 노드). 그래프와 따로 보관한다.
+  private readonly queryResults: Map<string, SongNode[]> = new Map();
 
-  // 현재 실행 컨텍스트 (DO 블록 내에서 사용)
-  private readonly context: Map<string, unknown> = new Map();
+  // DO 본문으로 맺은 관계 (주어 -> 관계 이름 -> 인자 목록). LOSES가 되돌릴 대상이다.
+  private readonly relationLinks: Map<SongNode, Map<string, unknown[][]>> = new Map();
+
+  // 추론 규칙 (선언 순서)과 규칙이 그래프에 더한 사실
+  private readonly rules: RuleStatement[] = [];
+  private derivedFacts: DerivedFact[] = [];
+  private applyingRules = false;
+
+  // 마지막으로 규칙을 적용한 뒤 그래프가 바뀌었는지 (바뀌지 않았으면 다시 계산하지 않는다)
+  private rulesStale = false;
+
+  // 규칙을 다시 계산하는 동안 모아 둔 그래프 변경 (트리거가 있을 때만)
+  private ruleMutations: GraphMutation[] | null = null;
+
+  // 트리거 (선언 순서), 조건 트리거가 이미 본 바인딩, 아직 처리하지 않은 변경
+  private readonly triggers: OnStatement[] = [];
+  private readonly triggerMatches: Map<OnStatement, Set<string>> = new Map();
+  private pendingChanges: Map<SongNode, Map<string, unknown>> = new Map();
+  private graphChanged = false;
+  private dispatchingTriggers = false;
 
   // WHEN 표현식 컨텍스트
   private whenSubject: SongNode | null = null;
 
+  // DEBUG TOKENS / DEBUG AST 출력용 현재 스크립트 정보
+  private sourceTokens: Token[] = [];
+  private sourceStatements: Statement[] = [];
+
   get graph(): Graph {
     return this._graph;
   }
 
   constructor(options: InterpreterOptions = {}) {
     this.onOutput = options.onOutput ?? ((line) => console.log(line));
+    this.maxLoopIterations = options.maxLoopIterations ?? DEFAULT_MAX_LOOP_ITERATIONS;
+    this.maxCallDepth = options.maxCallDepth ?? DEFAULT_MAX_CALL_DEPTH;
+    this.maxTriggerCascade = options.maxTriggerCascade ?? DEFAULT_MAX_TRIGGER_CASCADE;
+    this._graph.setMutationListener((mutation) => this.onGraphMutation(mutation));
+  }
+
+  /**
+   * 현재 스크립트의 토큰과 AST 설정 (DEBUG TOKENS / DEBUG AST에서 사용)
+   */
+  setSource(tokens: Token[], statements: Statement[]): void {
+    this.sourceTokens = tokens;
+    this.sourceStatements = statements;
   }
 
   /**
@@ -70,6 +253,13 @@ export class Interpreter {
     }
   }
 
+  /**
+   * 새 프레임에서 블록 실행 (블록 안에서 선언한 변수는 블록이 끝나면 사라진다)
+   */
+  private executeBlock(body: Statement[], bindings: Iterable<readonly [string, unknown]> = []): void {
+    this.scope.run(() => this.execute(body), bindings);
+  }
+
   private executeStatement(stmt: Statement): void {
     switch (stmt.kind) {
       case 'relation':
@@ -117,12 +307,51 @@ export class Interpreter {
       case 'chance':
         this.executeChance(stmt);
         break;
+      case 'while':
+        this.executeWhile(stmt);
+        break;
+      case 'repeat':
+        this.executeRepeat(stmt);
+        break;
+      case 'let':
+        this.scope.declare(stmt.name, this.evaluateExpression(stmt.value));
+        break;
+      case 'set':
+        this.executeSet(stmt);
+        break;
+      case 'function':
+        this.functions.set(stmt.name, stmt);
+        break;
+      case 'return':
+        if (this.callDepth === 0) {
+          throw new InterpreterError('RETURN은 함수 안에서만 쓸 수 있습니다', stmt.line, stmt.column);
+        }
+        throw new ReturnSignal(this.evaluateExpression(stmt.value));
+      case 'rule':
+        if (!this.rules.includes(stmt)) {
+          this.rules.push(stmt);
+          this.rulesStale = true;
+        }
+        break;
+      case 'on':
+        this.registerTrigger(stmt);
+        break;
       default: {
         const exhaustiveCheck: never = stmt;
         void exhaustiveCheck;
         throw new InterpreterError(`알 수 없는 문장 타입`, 0, 0);
       }
     }
+
+    // 문장이 그래프를 바꿨을 때만 규칙 결론을 다시 계산 (읽기만 하는 반복 본문에서는 하지 않는다)
+    if (this.rulesStale) {
+      this.applyRules();
+    }
+
+    // 트리거도 그래프가 바뀐 문장 뒤에만 확인한다 (graphChanged는 트리거가 있을 때만 켜진다)
+    if (this.graphChanged) {
+      this.dispatchTriggers(stmt);
+    }
   }
 
   private executeDebug(stmt: DebugStatement): void {
@@ -131,8 +360,80 @@ export class Interpreter {
         this.dumpGraph();
         break;
       case DebugTarget.Tokens:
+        this.dumpTokens();
+        break;
       case DebugTarget.Ast:
-        this.onOutput(`DEBUG ${stmt.target}는 아직 구현되지 않았습니다.`);
+        this.dumpAst();
+        break;
+    }
+  }
+
+  dumpTokens(): void {
+    this.onOutput('--- Tokens ---');
+    if (this.sourceTokens.length === 0) {
+      this.onOutput('(empty)');
+    }
+
+    for (const token of this.sourceTokens) {
+      this.onOutput(tokenToString(token));
+    }
+    this.onOutput('--------------');
+  }
+
+  dumpAst(): void {
+    this.onOutput('--- AST ---');
+    if (this.sourceStatements.length === 0) {
+      this.onOutput('(empty)');
+    }
+
+    this.dumpStatements(this.sourceStatements, 0);
+    this.onOutput('-----------');
+  }
+
+  private dumpStatements(statements: Statement[], depth: number): void {
+    for (const stmt of statements) {
+      this.dumpStatement(stmt, depth);
+    }
+  }
+
+  private dumpStatement(stmt: Statement, depth: number): void {
+    const indent = '  '.repeat(depth);
+    this.onOutput(`${indent}${statementToString(stmt)}`);
+
+    switch (stmt.kind) {
+      case 'doBlock':
+      case 'each':
+      case 'when':
+      case 'while':
+      case 'repeat':
+      case 'function':
+      case 'on':
+        this.dumpStatements(stmt.body, depth + 1);
+        break;
+      case 'whenExpression':
+        this.dumpStatements(stmt.body, depth + 1);
+        if (stmt.elseWhen !== null) {
+          this.onOutput(`${indent}ELSE`);
+          this.dumpStatement(stmt.elseWhen, depth + 1);
+        } else if (stmt.elseBody !== null) {
+          this.onOutput(`${indent}ELSE`);
+          this.dumpStatements(stmt.elseBody, depth + 1);
+        }
+        break;
+      case 'chance':
+        this.dumpStatements(stmt.body, depth + 1);
+        if (stmt.elseBody !== null) {
+          this.onOutput(`${indent}ELSE`);
+          this.dumpStatements(stmt.elseBody, depth + 1);
+        }
+        break;
+      case 'all':
+        if (stmt.action !== null) {
+          this.dumpStatement(stmt.action, depth + 1);
+        }
+        if (stmt.body !== null) {
+          this.dumpStatements(stmt.body, depth + 1);
+        }
         break;
     }
   }
@@ -147,40 +448,44 @@ export class Interpreter {
     for (const node of this._graph.allNodes) {
       this.onOutput(this.formatNode(node));
     }
+
+    for (const [name, nodes] of this.queryResults) {
+      this.onOutput(`Query(?${name}) [${nodes.map((n) => n.name).join(', ')}]`);
+    }
+
+    if (this.derivedFacts.length > 0 || this._graph.allEdges.some((edge) => edge.derived)) {
+      this.onOutput('(* = derived)');
+    }
     this.onOutput('-------------------');
   }
 
+  /**
+   * 노드 한 줄 요약. 유도된 사실(규칙, 관계 성질)은 이름 뒤에 *를 붙인다.
+   */
   private formatNode(node: SongNode): string {
     let result = `Node(${node.name})`;
 
     if (node.parents.length > 0) {
-      result += ` IS ${node.parents.map((p) => p.name).join(', ')}`;
+      result += ` IS ${node.parents.map((p) => (node.derivedParents.has(p) ? `${p.name}*` : p.name)).join(', ')}`;
     }
 
     // 내부 속성 제외
-    const visibleProps: string[] = [];
-    for (const [key, value] of node.properties) {
-      if (!key.startsWith('_')) {
-        let val: string;
-        if (typeof value === 'string') {
-          val = `"${value}"`;
-        } else if (value instanceof SongNode) {
-          val = `→${value.name}`;
-        } else {
-          val = String(value);
-        }
-        visibleProps.push(`${key}=${val}`);
-      }
+    const visibleProps = this.formatProperties(node.properties, node.derivedProperties);
+    if (visibleProps !== '') {
+      result += ` ${visibleProps}`;
     }
 
-    if (visibleProps.length > 0) {
-      result += ` { ${visibleProps.join(', ')} }`;
+    // 사용자 정의 관계 (관계별로 묶어서)
+    const targetsByRelation = new Map<string, string[]>();
+    for (const edge of this._graph.outgoing(node)) {
+      const targets = targetsByRelation.get(edge.relation) ?? [];
+      const edgeProps = this.formatProperties(edge.properties);
+      const targetName = edge.derived ? `${edge.target.name}*` : edge.target.name;
+      targets.push(edgeProps === '' ? targetName : `${targetName} ${edgeProps}`);
+      targetsByRelation.set(edge.relation, targets);
     }
-
-    // 쿼리 결과
-    const items = node.properties.get('_Items') as SongNode[] | undefined;
-    if (items && items.length > 0) {
-      result += ` CONTAINS [${items.map((n) => n.name).join(', ')}]`;
+    for (const [relation, targets] of targetsByRelation) {
+      result += ` ${relation} [${targets.join(', ')}]`;
     }
 
     // 능력
@@ -192,27 +497,75 @@ export class Interpreter {
     return result;
   }
 
-  private resolveNode(name: string): SongNode {
-    // 컨텍스트에서 먼저 찾기
-    const contextValue = this.context.get(name);
-    if (contextValue instanceof SongNode) {
-      return contextValue;
+  /**
+   * 내부 속성을 제외한 속성 목록: { HP=100, Name="Alice" } (없으면 빈 문자열)
+   * derived에 든 속성은 이름 뒤에 *를 붙인다.
+   */
+  private formatProperties(properties: Map<string, unknown>, derived: ReadonlySet<string> = new Set()): string {
+    const visibleProps: string[] = [];
+    for (const [key, value] of properties) {
+      if (!key.startsWith('_')) {
+        visibleProps.push(`${key}${derived.has(key) ? '*' : ''}=${this.formatValue(value)}`);
+      }
+    }
+
+    return visibleProps.length > 0 ? `{ ${visibleProps.join(', ')} }` : '';
+  }
+
+  private formatValue(value: unknown): string {
+    if (typeof value === 'string') {
+      return `"${value}"`;
+    }
+    if (value instanceof SongNode) {
+      return `→${value.name}`;
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map((element) => this.formatValue(element)).join(', ')}]`;
+    }
+    return String(value);
+  }
+
+  /**
+   * 이름을 노드로 해석한다 (스코프에서 먼저 찾고, 없으면 그래프 노드를 만든다)
+   * 스코프에 노드가 아닌 값이 있으면 노드를 만들지 않고 오류를 낸다.
+   */
+  private resolveNode(name: string, at: SourceSpan): SongNode {
+    if (this.scope.has(name)) {
+      const scopeValue = this.scope.get(name);
+      if (scopeValue instanceof SongNode) {
+        return scopeValue;
+      }
+      throw new SongError(
+        ErrorType.TypeMismatch,
+        `'${name}' is ${songTypeOf(scopeValue)}, not a Node`,
+        at.line,
+        at.column
+      );
     }
 
     return this._graph.getOrCreateNode(name);
   }
 
   private resolveNodeOrNull(name: string): SongNode | null {
-    const contextValue = this.context.get(name);
-    if (contextValue instanceof SongNode) {
-      return contextValue;
+    const scopeValue = this.scope.get(name);
+    if (scopeValue instanceof SongNode) {
+      return scopeValue;
     }
 
     return this._graph.getNode(name);
   }
 
   private executeRelation(stmt: RelationStatement): void {
-    const subject = this.resolveNode(stmt.subject);
+    // 노드가 아닌 변수는 값을 그대로 출력한다 (LET total = 5 / total PRINT)
+    if (stmt.relation.toUpperCase() === 'PRINT' && this.scope.has(stmt.subject)) {
+      const scopeValue = this.scope.get(stmt.subject);
+      if (!(scopeValue instanceof SongNode)) {
+        this.onOutput(this.stringify(scopeValue));
+        return;
+      }
+    }
+
+    const subject = this.resolveNode(stmt.subject, stmt);
 
     switch (stmt.relation.toUpperCase()) {
       case 'IS':
@@ -236,8 +589,12 @@ export class Interpreter {
       throw new InterpreterError('IS 관계에는 객체가 필요합니다', stmt.line, stmt.column);
     }
 
-    const parent = this.resolveNode(String(objName));
+    const parent = this.resolveNode(String(objName), stmt);
     subject.addParent(parent);
+
+    if (RELATION_TRAITS.includes(parent.name)) {
+      this.refreshImpliedEdges(subject.name);
+    }
   }
 
   private executeHas(subject: SongNode, stmt: RelationStatement): void {
@@ -260,7 +617,7 @@ export class Interpreter {
   }
 
   private executeHasExpression(stmt: HasExpressionStatement): void {
-    const subject = this.resolveNode(stmt.subject);
+    const subject = this.resolveNode(stmt.subject, stmt);
     const value = this.evaluateExpression(stmt.valueExpression);
     subject.setProperty(stmt.property, value);
   }
@@ -276,12 +633,7 @@ export class Interpreter {
 
   private executeExpressionPrint(stmt: ExpressionPrintStatement): void {
     const value = this.evaluateExpression(stmt.subject);
-    if (value instanceof SongNode) {
-      const name = value.getProperty('Name');
-      this.onOutput(name !== null && name !== undefined ? String(name) : value.name);
-    } else {
-      this.onOutput(value !== null && value !== undefined ? String(value) : 'null');
-    }
+    this.onOutput(this.stringify(value));
   }
 
   private executeExpressionHas(stmt: ExpressionHasStatement): void {
@@ -323,51 +675,548 @@ export class Interpreter {
   private executeCustomRelation(subject: SongNode, stmt: RelationStatement): void {
     const relationNode = this._graph.getNode(stmt.relation);
 
-    if (relationNode === null) {
-      if (stmt.arguments.length > 0) {
-        const objName = String(stmt.arguments[0]);
-        const objNode = this._graph.getOrCreateNode(objName);
-        subject.setProperty(`_${stmt.relation}`, objNode.name);
+    if (relationNode !== null && !this.isRelationNode(relationNode)) {
+      throw new InterpreterError(`'${stmt.relation}'는 관계가 아닙니다`, stmt.line, stmt.column);
+    }
+
+    const doBody = (relationNode?.getProperty('_DoBody') ?? null) as Statement[] | null;
+
+    // DO 본문이 없거나 성질이 선언된 관계는 간선으로 기록
+    if (doBody === null || this.hasRelationTraits(relationNode!)) {
+      this.recordRelationEdge(subject, stmt);
+    }
+
+    if (relationNode !== null && doBody !== null) {
+      this.invokeRelationBody(relationNode, doBody, subject, stmt);
+      this.addRelationLink(subject, stmt.relation, stmt.arguments);
+    }
+  }
+
+  private addRelationLink(subject: SongNode, relation: string, args: unknown[]): void {
+    let links = this.relationLinks.get(subject);
+    if (links === undefined) {
+      links = new Map();
+      this.relationLinks.set(subject, links);
+    }
+    links.set(relation, [...(links.get(relation) ?? []), [...args]]);
+  }
+
+  /**
+   * DO 본문으로 맺은 관계 중 대상이 일치하는 것을 꺼낸다 (대상이 없으면 전부)
+   */
+  private takeRelationLinks(subject: SongNode, relation: string, argument: unknown): unknown[][] {
+    const links = this.relationLinks.get(subject);
+    const existing = links?.get(relation) ?? [];
+    const matches = (args: unknown[]) =>
+      argument === null || (args.length > 0 && String(args[0]) === String(argument));
+
+    const taken = existing.filter(matches);
+    const kept = existing.filter((args) => !matches(args));
+    if (kept.length > 0) {
+      links!.set(relation, kept);
+    } else {
+      links?.delete(relation);
+    }
+    return taken;
+  }
+
+  private recordRelationEdge(subject: SongNode, stmt: RelationStatement): void {
+    if (stmt.arguments.length === 0) {
+      if (stmt.attributes.length > 0) {
+        throw new InterpreterError(`'${stmt.relation}' 간선 속성에는 대상이 필요합니다`, stmt.line, stmt.column);
       }
       return;
     }
 
-    if (!relationNode.is('RELATION')) {
-      throw new InterpreterError(`'${stmt.relation}'는 관계가 아닙니다`, stmt.line, stmt.column);
+    const objName = String(stmt.arguments[0]);
+    const objNode = this._graph.getOrCreateNode(objName);
+    const edge = this._graph.addEdge(subject, stmt.relation, objNode);
+    edge.derived = false;
+    for (const attr of stmt.attributes) {
+      edge.setProperty(attr.name, this.evaluateExpression(attr.value));
+    }
+
+    if (stmt.relation === INVERSE_RELATION) {
+      this.refreshImpliedEdges(subject.name);
+    } else {
+      const relationNode = this._graph.getNode(stmt.relation);
+      if (relationNode !== null && this.hasRelationTraits(relationNode)) {
+        this.refreshImpliedEdges(stmt.relation);
+      }
+    }
+  }
+
+  private invokeRelationBody(
+    relationNode: SongNode,
+    doBody: Statement[],
+    subject: SongNode,
+    stmt: RelationStatement
+  ): void {
+    // WITH 속성은 본문에서 이름으로 읽을 수 있다
+    const bindings: [string, unknown][] = stmt.attributes.map((attr) => [
+      attr.name,
+      this.evaluateExpression(attr.value),
+    ]);
+
+    const roles = relationNode.getProperty('_Roles') as string[] | null;
+
+    if (roles !== null && roles.length > 0) {
+      bindings.push([roles[0], subject]);
+
+      for (let i = 1; i < roles.length && i <= stmt.arguments.length; i++) {
+        const argName = String(stmt.arguments[i - 1]);
+        if (argName) {
+          bindings.push([roles[i], this._graph.getOrCreateNode(argName)]);
+        }
+      }
     }
 
-    const doBody = relationNode.getProperty('_DoBody') as Statement[] | null;
-    if (doBody !== null) {
-      const roles = relationNode.getProperty('_Roles') as string[] | null;
+    this.executeBlock(doBody, bindings);
+  }
+
+  // Relation Traits
+
+  private isRelationNode(node: SongNode): boolean {
+    return node.is('RELATION') || this.hasRelationTraits(node);
+  }
+
+  private hasRelationTraits(node: SongNode): boolean {
+    return RELATION_TRAITS.some((trait) => node.is(trait)) || this.inverseRelations(node.name).length > 0;
+  }
 
-      if (roles !== null && roles.length > 0) {
-        this.context.set(roles[0], subject);
+  /**
+   * 역관계 이름들 (INVERSE는 양방향으로 해석)
+   */
+  private inverseRelations(relation: string): string[] {
+    const node = this._graph.getNode(relation);
+    if (node === null) return [];
+
+    return [
+      ...this._graph.outgoing(node, INVERSE_RELATION).map((e) => e.target.name),
+      ...this._graph.incoming(node, INVERSE_RELATION).map((e) => e.source.name),
+    ];
+  }
 
-        for (let i = 1; i < roles.length && i <= stmt.arguments.length; i++) {
-          const argName = String(stmt.arguments[i - 1]);
-          if (argName) {
-            this.context.set(roles[i], this._graph.getOrCreateNode(argName));
+  /**
+   * 관계 성질로부터 유도되는 간선을 다시 계산한다.
+   * 역관계로 묶인 관계들은 함께 계산하고, 더 이상 유도되지 않는 간선은 제거된다.
+   */
+  private refreshImpliedEdges(relation: string): void {
+    const group = new Set<string>([relation]);
+    const pending = [relation];
+    while (pending.length > 0) {
+      for (const inverse of this.inverseRelations(pending.pop()!)) {
+        if (!group.has(inverse)) {
+          group.add(inverse);
+          pending.push(inverse);
+        }
+      }
+    }
+
+    // 규칙이 유도한 간선은 성질 계산의 전제로 남긴다
+    const ruleEdges = new Set(this.derivedFacts.flatMap((fact) => (fact.kind === 'edge' ? [fact.edge] : [])));
+    for (const edge of this._graph.allEdges) {
+      if (edge.derived && group.has(edge.relation) && !ruleEdges.has(edge)) {
+        this._graph.removeEdge(edge.source, edge.relation, edge.target);
+      }
+    }
+
+    // 새 간선이 더 이상 생기지 않을 때까지 반복
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const edge of this._graph.allEdges) {
+        if (!group.has(edge.relation)) continue;
+
+        for (const implied of this.impliedEdges(edge)) {
+          if (this._graph.findEdge(implied.source, implied.relation, implied.target) === null) {
+            const derived = this._graph.addEdge(implied.source, implied.relation, implied.target);
+            derived.derived = true;
+            if (implied.copyProperties) {
+              for (const [key, value] of edge.properties) {
+                derived.setProperty(key, value);
+              }
+            }
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+
+  private impliedEdges(edge: RelationEdge): ImpliedEdge[] {
+    const relationNode = this._graph.getNode(edge.relation);
+    if (relationNode === null) return [];
+
+    const implied: ImpliedEdge[] = [];
+
+    if (relationNode.is('SYMMETRIC')) {
+      implied.push({ source: edge.target, relation: edge.relation, target: edge.source, copyProperties: true });
+    }
+
+    for (const inverse of this.inverseRelations(edge.relation)) {
+      implied.push({ source: edge.target, relation: inverse, target: edge.source, copyProperties: true });
+    }
+
+    if (relationNode.is('TRANSITIVE')) {
+      for (const next of this._graph.outgoing(edge.target, edge.relation)) {
+        if (next.target !== edge.source) {
+          implied.push({ source: edge.source, relation: edge.relation, target: next.target, copyProperties: false });
+        }
+      }
+    }
+
+    return implied;
+  }
+
+  // Rules
+
+  /**
+   * 규칙 결론을 처음부터 다시 계산한다 (전방 추론)
+   * 이전에 유도한 사실을 모두 거둬들인 뒤, 새 사실이 생기지 않을 때까지 규칙을 선언 순서대로 적용한다.
+   * 전제가 더 이상 성립하지 않는 사실은 다시 유도되지 않으므로 그대로 사라진다.
+   * NOT 조건은 그 시점까지 유도된 사실을 기준으로 판단한다.
+   * 다시 유도된 사실은 원래 자리로 돌려놓고, 실제로 바뀐 사실만 트리거에 변경으로 알린다.
+   */
+  private applyRules(): void {
+    // WHERE 안의 함수 호출 등으로 다시 들어온 경우
+    if (this.applyingRules) return;
+    this.rulesStale = false;
+
+    const factNodes = new Set(
+      this.derivedFacts.flatMap((fact) => (fact.kind === 'edge' ? [fact.edge.source, fact.edge.target] : [fact.node]))
+    );
+    const orders = [...factNodes].map((node) => this._graph.captureOrder(node));
+    const mutations: GraphMutation[] = [];
+
+    this.applyingRules = true;
+    this.ruleMutations = mutations;
+    try {
+      this.retractDerivedFacts();
+
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const rule of this.rules) {
+          for (const bindings of this.solveRule(rule)) {
+            if (this.deriveFact(rule.head, bindings)) {
+              changed = true;
+            }
           }
         }
+      }
+    } finally {
+      orders.forEach((order) => this._graph.restoreOrder(order));
+      this.ruleMutations = null;
+      this.applyingRules = false;
+      netMutations(this._graph, mutations).forEach((mutation) => this.recordMutation(mutation));
+    }
+  }
+
+  /**
+   * 규칙 조건을 만족하는 바인딩
+   * 결론의 주어 변수는 인스턴스에만 묶는다. 다른 노드가 상속하는 타입 노드(와 그 조상)에 사실을 더하면
+   * 전제와 관계없이 모든 하위 노드가 그 사실을 물려받기 때문이다.
+   */
+  private solveRule(rule: RuleStatement): QueryBindings[] {
+    let solutions = this.solveQuery(rule.condition, new Map());
+    if (rule.whereCondition !== null) {
+      const where = rule.whereCondition;
+      solutions = solutions.filter((bindings) => this.matchesWhereCondition(where, bindings));
+    }
+
+    const subjectVar = rule.head.subject?.variableName ?? null;
+    return subjectVar !== null ? this.withoutTypeNodes(solutions, [subjectVar]) : solutions;
+  }
+
+  /**
+   * 주어진 변수가 타입 노드(다른 노드가 상속하는 노드)에 묶인 바인딩을 뺀다
+   */
+  private withoutTypeNodes(solutions: QueryBindings[], variables: readonly string[]): QueryBindings[] {
+    const typeNodes = new Set(this._graph.allNodes.flatMap((node) => node.parents));
+    return solutions.filter((bindings) =>
+      variables.every((name) => {
+        const node = bindings.get(name);
+        return node === undefined || !typeNodes.has(node);
+      })
+    );
+  }
+
+  /**
+   * 규칙 결론 하나를 사실로 더한다 (이미 성립하면 false)
+   * 직접 단언된 HAS 속성은 덮어쓰지 않는다.
+   */
+  private deriveFact(head: QueryClause, bindings: QueryBindings): boolean {
+    const node =
+      head.subjectName !== null ? this._graph.getOrCreateNode(head.subjectName) : bindings.get(head.subject!.variableName!)!;
+    const targetNode = () =>
+      head.targetVariable !== null ? bindings.get(head.targetVariable)! : this._graph.getOrCreateNode(head.target!);
+
+    switch (head.relation) {
+      case 'IS': {
+        const parent = targetNode();
+        if (parent === node || node.parents.includes(parent)) return false;
+
+        node.addParent(parent);
+        node.derivedParents.add(parent);
+        this.derivedFacts.push({ kind: 'is', node, parent });
+
+        if (RELATION_TRAITS.includes(parent.name)) {
+          this.refreshImpliedEdges(node.name);
+        }
+        return true;
+      }
+      case 'HAS': {
+        const property = head.target!;
+        if (node.hasOwnProperty(property)) return false;
+
+        // HAS 문장과 같이 노드 이름이면 노드 참조로 저장
+        let value = head.targetValue;
+        if (typeof value === 'string') {
+          value = this._graph.getNode(value) ?? value;
+        }
+
+        node.setProperty(property, value);
+        node.derivedProperties.add(property);
+        this.derivedFacts.push({ kind: 'has', node, property });
+        return true;
+      }
+      default: {
+        const target = targetNode();
+        if (this._graph.findEdge(node, head.relation, target) !== null) return false;
 
-        this.execute(doBody);
+        const edge = this._graph.addEdge(node, head.relation, target);
+        edge.derived = true;
+        this.derivedFacts.push({ kind: 'edge', edge });
+
+        const relationNode = this._graph.getNode(head.relation);
+        if (relationNode !== null && this.hasRelationTraits(relationNode)) {
+          this.refreshImpliedEdges(head.relation);
+        }
+        return true;
+      }
+    }
+  }
 
-        for (const role of roles) {
-          this.context.delete(role);
+  /**
+   * 규칙이 유도한 사실을 모두 거둬들인다
+   * 그 사이 직접 단언된 사실은 유도 표시가 지워져 있으므로 남긴다.
+   */
+  private retractDerivedFacts(): void {
+    const facts = this.derivedFacts;
+    this.derivedFacts = [];
+
+    const refresh = new Set<string>();
+    for (const fact of facts.reverse()) {
+      switch (fact.kind) {
+        case 'is':
+          if (fact.node.derivedParents.has(fact.parent)) {
+            fact.node.removeParent(fact.parent);
+            if (RELATION_TRAITS.includes(fact.parent.name)) {
+              refresh.add(fact.node.name);
+            }
+          }
+          break;
+        case 'has':
+          if (fact.node.derivedProperties.has(fact.property)) {
+            fact.node.removeProperty(fact.property);
+          }
+          break;
+        case 'edge': {
+          const { source, relation, target } = fact.edge;
+          if (fact.edge.derived && this._graph.findEdge(source, relation, target) === fact.edge) {
+            this._graph.removeEdge(source, relation, target);
+            const relationNode = this._graph.getNode(relation);
+            if (relationNode !== null && this.hasRelationTraits(relationNode)) {
+              refresh.add(relation);
+            }
+          }
+          break;
         }
-      } else {
-        this.execute(doBody);
+      }
+    }
+
+    refresh.forEach((relation) => this.refreshImpliedEdges(relation));
+  }
+
+  // Triggers
+
+  /**
+   * 트리거 등록 (같은 문장은 한 번만)
+   * 조건 트리거는 등록 시점에 이미 만족하는 바인딩에는 실행되지 않는다.
+   */
+  private registerTrigger(stmt: OnStatement): void {
+    if (this.triggers.includes(stmt)) return;
+
+    this.triggers.push(stmt);
+    if (stmt.condition !== null) {
+      this.triggerMatches.set(stmt, new Set(this.matchTrigger(stmt).keys()));
+    }
+  }
+
+  /**
+   * 그래프 변경 알림 (규칙 적용 중의 변경은 규칙 자신의 결과이므로 다시 계산할 이유가 되지 않는다)
+   */
+  private onGraphMutation(mutation: GraphMutation): void {
+    if (this.rules.length > 0 && !this.applyingRules) {
+      this.rulesStale = true;
+    }
+    this.recordMutation(mutation);
+  }
+
+  private recordMutation(mutation: GraphMutation): void {
+    if (this.triggers.length === 0) return;
+
+    // 규칙 재계산 중의 변경은 모아 두었다가 실제로 바뀐 것만 다시 받는다
+    if (this.ruleMutations !== null) {
+      this.ruleMutations.push(mutation);
+      return;
+    }
+
+    this.graphChanged = true;
+
+    // 속성마다 처음 바뀌기 전 값만 기억한다 (실행 시점에 현재 값과 비교)
+    if (mutation.kind === 'property' && !mutation.property.startsWith('_')) {
+      let changes = this.pendingChanges.get(mutation.node);
+      if (changes === undefined) {
+        changes = new Map();
+        this.pendingChanges.set(mutation.node, changes);
+      }
+      if (!changes.has(mutation.property)) {
+        changes.set(mutation.property, mutation.oldValue);
       }
     }
   }
 
+  /**
+   * 능력 Set은 제자리에서 바뀌어 변경 알림이 없으므로, 규칙과 조건 트리거가 다시 확인하도록 표시한다
+   */
+  private noteAbilityChange(): void {
+    if (this.rules.length > 0 && !this.applyingRules) {
+      this.rulesStale = true;
+    }
+    if (this.triggers.length > 0) {
+      this.graphChanged = true;
+    }
+  }
+
+  /**
+   * 쌓인 변경으로 트리거 실행
+   * 트리거 본문이 만든 변경은 다음 단계에서 처리하며, 단계가 maxTriggerCascade를 넘으면 오류.
+   * 본문 안의 문장에서는 다시 실행하지 않는다 (바깥 단계 반복이 처리한다).
+   */
+  private dispatchTriggers(origin: Statement): void {
+    if (this.dispatchingTriggers) return;
+
+    this.dispatchingTriggers = true;
+    try {
+      for (let round = 1; this.graphChanged; round++) {
+        if (round > this.maxTriggerCascade) {
+          throw new SongError(
+            ErrorType.TriggerCascadeExceeded,
+            `Triggers kept firing after ${this.maxTriggerCascade} rounds`,
+            origin.line,
+            origin.column
+          );
+        }
+
+        const changes = this.pendingChanges;
+        this.pendingChanges = new Map();
+        this.graphChanged = false;
+
+        for (const trigger of this.triggers) {
+          if (trigger.condition !== null) {
+            this.fireMatchTrigger(trigger);
+          } else {
+            this.fireChangeTrigger(trigger, changes);
+          }
+        }
+      }
+    } catch (e) {
+      this.pendingChanges = new Map();
+      this.graphChanged = false;
+      throw e;
+    } finally {
+      this.dispatchingTriggers = false;
+    }
+  }
+
+  /**
+   * ON X.Prop CHANGES: X 또는 X 타입 노드의 자기 속성 값이 실제로 달라졌을 때
+   */
+  private fireChangeTrigger(trigger: OnStatement, changes: Map<SongNode, Map<string, unknown>>): void {
+    for (const [node, properties] of changes) {
+      if (!properties.has(trigger.property!) || !node.is(trigger.subject!)) continue;
+      if (this.equals(properties.get(trigger.property!), node.properties.get(trigger.property!))) continue;
+
+      this.runTriggerBody(trigger, trigger.binding !== null ? [[trigger.binding, node]] : []);
+    }
+  }
+
+  /**
+   * ON 조건: 지난번에 없던 바인딩마다 한 번씩
+   */
+  private fireMatchTrigger(trigger: OnStatement): void {
+    const previous = this.triggerMatches.get(trigger) ?? new Set<string>();
+    const current = this.matchTrigger(trigger);
+    this.triggerMatches.set(trigger, new Set(current.keys()));
+
+    for (const [key, bindings] of current) {
+      if (!previous.has(key)) {
+        this.runTriggerBody(trigger, bindings);
+      }
+    }
+  }
+
+  /**
+   * 조건 트리거를 만족하는 바인딩 (바인딩을 나타내는 키 -> 바인딩)
+   * 규칙 결론처럼 인스턴스에만 반응한다 (ON ?x IS Dead는 Dead 타입 노드 자신에는 실행하지 않는다).
+   */
+  private matchTrigger(trigger: OnStatement): Map<string, QueryBindings> {
+    let solutions = this.withoutTypeNodes(
+      this.solveQuery(trigger.condition!, new Map()),
+      this.queryVariables(trigger.condition!)
+    );
+    if (trigger.whereCondition !== null) {
+      const where = trigger.whereCondition;
+      solutions = solutions.filter((bindings) => this.matchesWhereCondition(where, bindings));
+    }
+
+    const matches = new Map<string, QueryBindings>();
+    for (const bindings of solutions) {
+      const key = [...bindings]
+        .map(([name, node]) => `${name}=${node.name}`)
+        .sort()
+        .join(',');
+      matches.set(key, bindings);
+    }
+    return matches;
+  }
+
+  /**
+   * 트리거 본문은 함수처럼 호출한 쪽의 블록 변수와 분리해서 실행한다
+   */
+  private runTriggerBody(trigger: OnStatement, bindings: Iterable<readonly [string, unknown]>): void {
+    const previousWhenSubject = this.whenSubject;
+    const previousCallDepth = this.callDepth;
+    this.whenSubject = null;
+    this.callDepth = 0;
+
+    try {
+      this.scope.runIsolated(() => this.execute(trigger.body), bindings);
+    } finally {
+      this.callDepth = previousCallDepth;
+      this.whenSubject = previousWhenSubject;
+    }
+  }
+
   private executeDoBlock(stmt: DoBlockStatement): void {
-    const subject = this.resolveNode(stmt.subject);
-    subject.setProperty('_DoBody', stmt.body);
+    const subject = this.resolveNode(stmt.subject, stmt);
+    subject.setProperty(stmt.undo ? '_UndoBody' : '_DoBody', stmt.body);
   }
 
   private executeCan(stmt: CanStatement): void {
-    const subject = this.resolveNode(stmt.subject);
+    const subject = this.resolveNode(stmt.subject, stmt);
 
     let abilities = subject.getProperty('_Abilities') as Set<string> | null;
     if (abilities === null) {
@@ -376,64 +1225,163 @@ export class Interpreter {
     }
 
     abilities.add(stmt.ability);
+    this.noteAbilityChange();
   }
 
   private executeLoses(stmt: LosesStatement): void {
-    const subject = this.resolveNode(stmt.subject);
+    const subject = this.resolveNode(stmt.subject, stmt);
+
+    switch (stmt.type) {
+      case LosesType.Is: {
+        const parent = this.resolveNodeOrNull(stmt.target);
+        if (parent !== null) {
+          subject.removeParent(parent);
+
+          if (RELATION_TRAITS.includes(parent.name)) {
+            this.refreshImpliedEdges(subject.name);
+          }
+        }
+        break;
+      }
+      case LosesType.Auto: {
+        const abilities = subject.getProperty('_Abilities') as Set<string> | null;
+        if (stmt.argument === null && abilities?.has(stmt.target)) {
+          abilities.delete(stmt.target);
+          this.noteAbilityChange();
+        } else if (subject.hasOwnProperty(stmt.target)) {
+          this.loseProperty(subject, stmt);
+        } else {
+          this.loseRelation(subject, stmt);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 속성 제거: 인자가 있으면 리스트 요소를 빼거나, 값이 같을 때만 속성을 지운다
+   * Player LOSES Tags "brave", Alice LOSES Friend Bob
+   */
+  private loseProperty(subject: SongNode, stmt: LosesStatement): void {
+    if (stmt.argument === null) {
+      subject.removeProperty(stmt.target);
+      return;
+    }
+
+    // HAS와 같이 노드 이름이면 노드 참조로 비교
+    let element = stmt.argument;
+    if (typeof element === 'string') {
+      element = this._graph.getNode(element) ?? element;
+    }
+
+    const value = subject.getProperty(stmt.target);
+    if (Array.isArray(value)) {
+      subject.setProperty(stmt.target, this.removeElement(value, element));
+    } else if (this.equals(value, element)) {
+      subject.removeProperty(stmt.target);
+    }
+  }
+
+  /**
+   * 관계 간선 제거: Alice LOSES LIKES Bob (대상 하나), Alice LOSES LIKES (모든 대상)
+   * 관계 노드에 LOSES DO 본문이 있으면 역할을 바인딩해서 실행한다.
+   */
+  private loseRelation(subject: SongNode, stmt: LosesStatement): void {
+    const relation = stmt.target;
+    const relationNode = this._graph.getNode(relation);
+    if (relationNode !== null && !this.isRelationNode(relationNode)) {
+      // 대상 없이 능력도 속성도 아닌 이름을 잃는 것은 아무 일도 하지 않는다 (Player LOSES Gold)
+      if (stmt.argument === null) return;
+      throw new InterpreterError(`'${relation}'는 관계가 아닙니다`, stmt.line, stmt.column);
+    }
+
+    // 실제로 이어져 있는 간선만 끊는다
+    const targets = this._graph
+      .outgoing(subject, relation)
+      .map((e) => e.target)
+      .filter((target) => stmt.argument === null || target.name === String(stmt.argument));
+
+    for (const target of targets) {
+      this.retractEdge(subject, relation, target);
+    }
+
+    if (relation === INVERSE_RELATION) {
+      this.refreshImpliedEdges(subject.name);
+      targets.forEach((target) => this.refreshImpliedEdges(target.name));
+    } else if (relationNode !== null && this.hasRelationTraits(relationNode)) {
+      this.refreshImpliedEdges(relation);
+    }
+
+    if (relationNode === null) return;
+
+    // DO 본문이 있는 관계는 실제로 맺은 호출마다, 없으면 끊은 간선마다 UNDO 본문을 한 번씩 실행
+    const invocations =
+      relationNode.getProperty('_DoBody') !== null
+        ? this.takeRelationLinks(subject, relation, stmt.argument)
+        : targets.map((target) => [target.name]);
+    const undoBody = relationNode.getProperty('_UndoBody') as Statement[] | null;
+    if (undoBody === null) return;
+
+    for (const args of invocations) {
+      const undo = createRelationStmt(subject.name, relation, args, stmt);
+      this.invokeRelationBody(relationNode, undoBody, subject, undo);
+    }
+  }
+
+  /**
+   * 간선과 대칭/역관계로 짝이 되는 간선을 함께 제거
+   * 직접 맺은 간선을 끊을 때는 유도된 짝만 지우고, 사용자가 직접 맺은 짝은 남긴다.
+   * 유도된 간선을 끊을 때는 그 간선을 유도한 짝도 지운다.
+   */
+  private retractEdge(source: SongNode, relation: string, target: SongNode): void {
+    const edge = this._graph.findEdge(source, relation, target);
+    if (edge === null) return;
+    this._graph.removeEdge(source, relation, target);
+
+    const counterRelations = this.inverseRelations(relation);
+    if (this._graph.getNode(relation)?.is('SYMMETRIC')) {
+      counterRelations.push(relation);
+    }
 
-    switch (stmt.type) {
-      case LosesType.Is: {
-        const parent = this.resolveNodeOrNull(stmt.target);
-        if (parent !== null) {
-          subject.removeParent(parent);
-        }
-        break;
-      }
-      case LosesType.Auto: {
-        const abilities = subject.getProperty('_Abilities') as Set<string> | null;
-        if (abilities?.has(stmt.target)) {
-          abilities.delete(stmt.target);
-        } else if (subject.hasOwnProperty(stmt.target)) {
-          subject.removeProperty(stmt.target);
-        }
-        break;
+    for (const counterRelation of counterRelations) {
+      const counterpart = this._graph.findEdge(target, counterRelation, source);
+      if (counterpart !== null && (edge.derived || counterpart.derived)) {
+        this._graph.removeEdge(target, counterRelation, source);
       }
     }
   }
 
   private executeWhen(stmt: WhenStatement): void {
     if (this.evaluateCondition(stmt.condition)) {
-      this.execute(stmt.body);
+      this.executeBlock(stmt.body);
     }
   }
 
   private executeWhenExpression(stmt: WhenExpressionStatement): void {
-    const subjectNode = this._graph.getNode(stmt.subject);
-
-    if (subjectNode !== null) {
-      this.context.set(stmt.subject, subjectNode);
-    }
+    // 주어는 컨텍스트 변수(ALL ... AS m)일 수도 있다
+    const subjectNode = this.resolveNodeOrNull(stmt.subject);
+    const bindings: [string, unknown][] =
+      subjectNode !== null && !this.scope.has(stmt.subject) ? [[stmt.subject, subjectNode]] : [];
 
     const previousWhenSubject = this.whenSubject;
     this.whenSubject = subjectNode;
 
     try {
-      const result = this.evaluateExpression(stmt.condition);
+      this.scope.run(() => {
+        const result = this.evaluateExpression(stmt.condition);
 
-      if (this.isTruthy(result)) {
-        this.execute(stmt.body);
-      } else {
-        if (stmt.elseWhen !== null) {
-          this.executeWhenExpression(stmt.elseWhen);
-        } else if (stmt.elseBody !== null) {
-          this.execute(stmt.elseBody);
+        if (this.isTruthy(result)) {
+          this.executeBlock(stmt.body);
+        } else {
+          if (stmt.elseWhen !== null) {
+            this.executeWhenExpression(stmt.elseWhen);
+          } else if (stmt.elseBody !== null) {
+            this.executeBlock(stmt.elseBody);
+          }
         }
-      }
+      }, bindings);
     } finally {
       this.whenSubject = previousWhenSubject;
-      if (subjectNode !== null) {
-        this.context.delete(stmt.subject);
-      }
     }
   }
 
@@ -444,12 +1392,73 @@ export class Interpreter {
     const roll = Math.floor(Math.random() * 100);
 
     if (roll < percent) {
-      this.execute(stmt.body);
+      this.executeBlock(stmt.body);
     } else if (stmt.elseBody !== null) {
-      this.execute(stmt.elseBody);
+      this.executeBlock(stmt.elseBody);
+    }
+  }
+
+  /**
+   * WHILE 반복: 조건이 참인 동안 본문 실행
+   */
+  private executeWhile(stmt: WhileStatement): void {
+    let iterations = 0;
+
+    while (this.isTruthy(this.evaluateExpression(stmt.condition))) {
+      if (++iterations > this.maxLoopIterations) {
+        throw this.loopLimitError('WHILE', stmt);
+      }
+      this.executeBlock(stmt.body);
+    }
+  }
+
+  /**
+   * REPEAT 반복: 정해진 횟수만큼 본문 실행
+   */
+  private executeRepeat(stmt: RepeatStatement): void {
+    const count = this.toNumber(this.evaluateExpression(stmt.count), stmt.count);
+
+    if (!Number.isInteger(count) || count < 0) {
+      throw new SongError(
+        ErrorType.InvalidOperand,
+        `REPEAT count must be a non-negative integer, got ${count}`,
+        stmt.count.line,
+        stmt.count.column
+      );
+    }
+
+    if (count > this.maxLoopIterations) {
+      throw this.loopLimitError('REPEAT', stmt);
+    }
+
+    for (let i = 0; i < count; i++) {
+      this.executeBlock(stmt.body);
     }
   }
 
+  /**
+   * SET: 가장 가까운 블록에서 선언된 변수의 값을 바꾼다
+   */
+  private executeSet(stmt: SetStatement): void {
+    const value = this.evaluateExpression(stmt.value);
+    if (!this.scope.assign(stmt.name, value)) {
+      throw new InterpreterError(
+        `변수 '${stmt.name}'이(가) 선언되지 않았습니다. 먼저 LET으로 선언하세요`,
+        stmt.line,
+        stmt.column
+      );
+    }
+  }
+
+  private loopLimitError(keyword: string, stmt: Statement): SongError {
+    return new SongError(
+      ErrorType.LoopLimitExceeded,
+      `${keyword} exceeded ${this.maxLoopIterations} iterations`,
+      stmt.line,
+      stmt.column
+    );
+  }
+
   private evaluateCondition(condition: Statement): boolean {
     if (condition.kind === 'relation') {
       const node = this._graph.getNode(condition.subject);
@@ -494,15 +1503,27 @@ export class Interpreter {
     let matchingNodes: SongNode[];
 
     if (stmt.queryVariable !== null) {
+      if (!this.queryResults.has(stmt.queryVariable)) {
+        this.onOutput(`ALL ?${stmt.queryVariable}: No query results found (run query first)`);
+        return;
+      }
       matchingNodes = this.getQueryResults(stmt.queryVariable);
       if (matchingNodes.length === 0) {
-        this.onOutput(`ALL ?${stmt.queryVariable}: No query results found (run query first)`);
+        this.onOutput(`ALL ?${stmt.queryVariable}: 0 nodes found`);
         return;
       }
+    } else if (stmt.body !== null) {
+      matchingNodes = this.instancesOf(stmt.typeName);
     } else {
+      // 동작과 개수 형태는 타입 노드 자신도 포함한다
       matchingNodes = this._graph.allNodes.filter((n) => n.is(stmt.typeName));
     }
 
+    if (stmt.body !== null) {
+      this.executeForEach(matchingNodes, stmt.binding, stmt.body);
+      return;
+    }
+
     if (stmt.action === null) {
       const target = stmt.queryVariable !== null ? `?${stmt.queryVariable}` : stmt.typeName;
       this.onOutput(`ALL ${target}: ${matchingNodes.length} nodes found`);
@@ -514,53 +1535,114 @@ export class Interpreter {
     }
   }
 
+  /**
+   * 타입의 모든 인스턴스 (타입 노드 자신은 제외, 그래프 순서)
+   * ALL DO 본문, EACH DEEP, 집계가 이 기준으로 타입의 구성원을 센다.
+   */
+  private instancesOf(typeName: string): SongNode[] {
+    return this._graph.allNodes.filter((n) => n.name !== typeName && n.is(typeName));
+  }
+
+  /**
+   * 항목마다 새 프레임에서 본문 실행 (binding이 있으면 해당 이름으로 항목을 바인딩)
+   */
+  private executeForEach(items: readonly unknown[], binding: string | null, body: Statement[]): void {
+    for (const item of items) {
+      this.executeBlock(body, binding !== null ? [[binding, item]] : []);
+    }
+  }
+
   private executeActionOnNode(node: SongNode, action: Statement): void {
-    if (action.kind === 'relation') {
-      const newRel = createRelationStmt(
-        node.name,
-        action.relation,
-        action.arguments,
-        action.line,
-        action.column
-      );
-      this.executeRelation(newRel);
+    if (action.kind !== 'relation') {
+      throw new InterpreterError(`ALL 동작은 관계 문장이어야 합니다: ${action.kind}`, action.line, action.column);
     }
+
+    const newRel = createRelationStmt(node.name, action.relation, action.arguments, action, action.attributes);
+    this.executeRelation(newRel);
   }
 
+  /**
+   * EACH 반복
+   * 컬렉션이 없으면 아무것도 하지 않는다. 항목 목록은 반복을 시작할 때 고정된다.
+   */
   private executeEach(stmt: EachStatement): void {
-    const collectionNode = this._graph.getNode(stmt.collection);
-    if (collectionNode === null) {
-      throw new InterpreterError(`컬렉션 '${stmt.collection}'을 찾을 수 없습니다`, stmt.line, stmt.column);
+    this.executeForEach(this.collectEachItems(stmt), stmt.variable, stmt.body);
+  }
+
+  /**
+   * EACH 대상 항목 수집
+   * 노드는 그래프에 만들어진 순서, 쿼리 결과는 쿼리가 찾은 순서,
+   * 리스트는 인덱스 순서, 관계 대상은 간선이 추가된 순서를 따른다.
+   */
+  private collectEachItems(stmt: EachStatement): unknown[] {
+    switch (stmt.source) {
+      case EachSource.Children: {
+        const collectionNode = this.resolveNodeOrNull(stmt.collection);
+        if (collectionNode === null) return [];
+        return this._graph.allNodes.filter((n) => n.parents.includes(collectionNode));
+      }
+      case EachSource.Descendants: {
+        const collectionNode = this.resolveNodeOrNull(stmt.collection);
+        if (collectionNode === null) return [];
+        return this.instancesOf(collectionNode.name);
+      }
+      case EachSource.Query:
+        return [...this.getQueryResults(stmt.collection)];
+      case EachSource.Expression:
+        return stmt.collectionExpression === null ? [] : this.collectExpressionItems(stmt.collectionExpression);
+    }
+  }
+
+  /**
+   * 표현식 대상: 리스트 속성이면 원소, 속성이 없으면 같은 이름의 관계 대상
+   */
+  private collectExpressionItems(expr: Expression): unknown[] {
+    if (expr.kind === 'propertyAccess') {
+      const owner =
+        expr.object.kind === 'identifier' && !this.scope.has(expr.object.name)
+          ? this._graph.getNode(expr.object.name)
+          : this.evaluateExpression(expr.object);
+      if (owner === null) return [];
+
+      if (owner instanceof SongNode) {
+        const value = owner.getProperty(expr.property);
+        if (value === null || value === undefined) {
+          return this._graph.outgoing(owner, expr.property).map((edge) => edge.target);
+        }
+        return this.toEachList(value, expr);
+      }
     }
 
-    const children = this._graph.allNodes.filter((n) => n.parents.includes(collectionNode));
+    return this.toEachList(this.evaluateExpression(expr), expr);
+  }
 
-    for (const child of children) {
-      this.context.set(stmt.variable, child);
-      this.execute(stmt.body);
-      this.context.delete(stmt.variable);
+  private toEachList(value: unknown, expr: Expression): unknown[] {
+    if (!Array.isArray(value)) {
+      throw new SongError(ErrorType.TypeMismatch, `"${expressionToString(expr)}" is not a list`, expr.line, expr.column);
     }
+    return [...value];
   }
 
   private executeQuery(stmt: QueryStatement): void {
-    let matchingNodes = this.findMatchingNodes(stmt);
+    let solutions = this.solveQuery(stmt.condition, new Map());
 
     if (stmt.whereCondition !== null) {
-      matchingNodes = this.filterByWhereCondition(matchingNodes, stmt);
+      const where = stmt.whereCondition;
+      solutions = solutions.filter((bindings) => this.matchesWhereCondition(where, bindings));
     }
 
+    const resultVar = stmt.subject.variableName ?? WILDCARD_VARIABLE;
+    solutions = this.applyQueryModifiers(stmt, resultVar, solutions);
+    const matchingNodes = solutions.map((bindings) => bindings.get(resultVar)!);
+
     if (!stmt.subject.isWildcard && stmt.subject.variableName !== null) {
       const varName = stmt.subject.variableName;
 
-      const resultNode = this._graph.getOrCreateNode(varName);
-
-      const queryResultType = this._graph.getOrCreateNode('QueryResult');
-      if (!resultNode.parents.includes(queryResultType)) {
-        resultNode.addParent(queryResultType);
+      // 결과 변수뿐 아니라 조인에 쓰인 다른 변수들의 값도 쿼리 결과로 남긴다
+      for (const name of this.queryVariables(stmt.condition)) {
+        this.queryResults.set(name, name === varName ? matchingNodes : this.boundNodes(solutions, name));
       }
 
-      resultNode.setProperty('_Items', matchingNodes);
-
       this.onOutput(`Query ?${varName}: ${matchingNodes.length} nodes found`);
       for (const node of matchingNodes) {
         this.onOutput(`  - ${node.name}`);
@@ -573,97 +1655,267 @@ export class Interpreter {
     }
   }
 
-  private findMatchingNodes(stmt: QueryStatement): SongNode[] {
-    const result: SongNode[] = [];
+  /**
+   * 결과 변수가 묶인 바인딩을 정렬하고 DISTINCT, OFFSET, LIMIT 순으로 자른다
+   * 기본 순서는 결과 노드의 그래프 순서이며, ORDER BY는 그 위에서 안정 정렬한다.
+   */
+  private applyQueryModifiers(stmt: QueryStatement, resultVar: string, solutions: QueryBindings[]): QueryBindings[] {
+    const nodeOrder = new Map(this._graph.allNodes.map((node, i) => [node, i]));
+    let rows = solutions
+      .filter((bindings) => bindings.has(resultVar))
+      .sort((a, b) => nodeOrder.get(a.get(resultVar)!)! - nodeOrder.get(b.get(resultVar)!)!);
+
+    if (stmt.orderBy.length > 0) {
+      const keyed = rows.map((bindings) => ({
+        bindings,
+        keys: stmt.orderBy.map((key) => this.evaluateOrderKey(key.expression, bindings)),
+      }));
+      keyed.sort((a, b) => {
+        for (let i = 0; i < stmt.orderBy.length; i++) {
+          const order = compareOrderKeys(a.keys[i], b.keys[i], stmt.orderBy[i].expression);
+          if (order !== 0) {
+            // 값이 없는 행은 방향과 관계없이 맨 뒤
+            const bothPresent = a.keys[i] !== null && b.keys[i] !== null;
+            return stmt.orderBy[i].descending && bothPresent ? -order : order;
+          }
+        }
+        return 0;
+      });
+      rows = keyed.map((row) => row.bindings);
+    }
 
-    for (const node of this._graph.allNodes) {
-      let matches = false;
+    if (stmt.distinct) {
+      const seen = new Set<SongNode>();
+      rows = rows.filter((bindings) => {
+        const node = bindings.get(resultVar)!;
+        if (seen.has(node)) return false;
+        seen.add(node);
+        return true;
+      });
+    }
 
-      switch (stmt.relation) {
-        case 'IS':
-          matches = this.matchesIsQuery(node, stmt);
-          break;
-        case 'HAS':
-          matches = this.matchesHasQuery(node, stmt);
-          break;
-        case 'CAN':
-          matches = this.matchesCanQuery(node, stmt);
-          break;
+    const start = stmt.skip ?? 0;
+    return rows.slice(start, stmt.limit === null ? undefined : start + stmt.limit);
+  }
+
+  /**
+   * ORDER BY 키 값 (속성이 없으면 null)
+   */
+  private evaluateOrderKey(expr: Expression, bindings: QueryBindings): number | string | null {
+    let value: unknown;
+    try {
+      value = this.scope.run(() => this.evaluateExpression(expr), bindings);
+    } catch (e) {
+      if (e instanceof SongError && e.type === ErrorType.PropertyNotFound) {
+        return null;
+      }
+      throw e;
+    }
+
+    if (typeof value === 'number' || typeof value === 'string') {
+      return value;
+    }
+    if (value instanceof SongNode) {
+      return value.name;
+    }
+    throw new SongError(
+      ErrorType.TypeMismatch,
+      `ORDER BY value must be Number or String, got ${songTypeOf(value)}`,
+      expr.line,
+      expr.column
+    );
+  }
+
+  /**
+   * 조건을 만족하는 모든 변수 바인딩
+   * AND는 앞 절의 바인딩을 이어받아 조인하고, OR는 양쪽 결과를 합치며,
+   * NOT은 만족하는 바인딩이 하나도 없을 때만 현재 바인딩을 통과시킨다.
+   */
+  private solveQuery(condition: QueryCondition, bindings: QueryBindings): QueryBindings[] {
+    switch (condition.kind) {
+      case 'clause':
+        return this.solveQueryClause(condition, bindings);
+      case 'and':
+        return this.solveQuery(condition.left, bindings).flatMap((left) => this.solveQuery(condition.right, left));
+      case 'or':
+        return [...this.solveQuery(condition.left, bindings), ...this.solveQuery(condition.right, bindings)];
+      case 'not':
+        return this.solveQuery(condition.operand, bindings).length === 0 ? [bindings] : [];
+    }
+  }
+
+  private solveQueryClause(clause: QueryClause, bindings: QueryBindings): QueryBindings[] {
+    const results: QueryBindings[] = [];
+    const subjectVar = clause.subject === null ? null : (clause.subject.variableName ?? WILDCARD_VARIABLE);
+
+    let subjects: SongNode[];
+    if (clause.subjectName !== null) {
+      const node = this._graph.getNode(clause.subjectName);
+      subjects = node !== null ? [node] : [];
+    } else if (subjectVar !== null && bindings.has(subjectVar)) {
+      subjects = [bindings.get(subjectVar)!];
+    } else {
+      subjects = this._graph.allNodes;
+    }
+
+    for (const subject of subjects) {
+      const bound = bindQueryVariable(bindings, subjectVar, subject);
+
+      if (clause.targetVariable === null) {
+        if (this.matchesQueryClause(subject, clause)) {
+          results.push(bound);
+        }
+        continue;
       }
 
-      if (matches) {
-        result.push(node);
+      const boundTarget = bound.get(clause.targetVariable);
+      for (const target of this.queryClauseTargets(subject, clause.relation)) {
+        if (boundTarget === undefined || boundTarget === target) {
+          results.push(bindQueryVariable(bound, clause.targetVariable, target));
+        }
       }
     }
 
-    return result;
+    return results;
+  }
+
+  private matchesQueryClause(node: SongNode, clause: QueryClause): boolean {
+    switch (clause.relation) {
+      case 'IS':
+        return this.matchesIsQuery(node, clause);
+      case 'HAS':
+        return this.matchesHasQuery(node, clause);
+      case 'CAN':
+        return this.matchesCanQuery(node, clause);
+      default: {
+        const edges = this._graph.outgoing(node, clause.relation);
+        return clause.target === null ? edges.length > 0 : edges.some((edge) => edge.target.name === clause.target);
+      }
+    }
+  }
+
+  /**
+   * ?x IS ?t는 x의 모든 상위 타입, ?x REL ?y는 REL 간선의 대상
+   */
+  private queryClauseTargets(node: SongNode, relation: string): SongNode[] {
+    if (relation === 'IS') {
+      const ancestors: SongNode[] = [];
+      const pending = [...node.parents];
+      while (pending.length > 0) {
+        const parent = pending.shift()!;
+        if (parent !== node && !ancestors.includes(parent)) {
+          ancestors.push(parent);
+          pending.push(...parent.parents);
+        }
+      }
+      return ancestors;
+    }
+    return this._graph.outgoing(node, relation).map((edge) => edge.target);
   }
 
-  private matchesIsQuery(node: SongNode, stmt: QueryStatement): boolean {
-    if (stmt.target === null) return true;
-    return node.is(stmt.target);
+  private matchesIsQuery(node: SongNode, clause: QueryClause): boolean {
+    if (clause.target === null) return true;
+    return node.is(clause.target);
   }
 
-  private matchesHasQuery(node: SongNode, stmt: QueryStatement): boolean {
-    if (stmt.target === null) return node.properties.size > 0;
+  private matchesHasQuery(node: SongNode, clause: QueryClause): boolean {
+    if (clause.target === null) return node.properties.size > 0;
 
-    const propValue = node.getProperty(stmt.target);
+    const propValue = node.getProperty(clause.target);
 
     if (propValue === null || propValue === undefined) return false;
 
-    if (stmt.targetValue === null || stmt.targetValue === undefined) return true;
+    if (clause.targetValue === null || clause.targetValue === undefined) return true;
 
-    if (typeof stmt.targetValue === 'number' && typeof propValue === 'number') {
-      return Math.abs(stmt.targetValue - propValue) < 0.0001;
+    if (typeof clause.targetValue === 'number' && typeof propValue === 'number') {
+      return Math.abs(clause.targetValue - propValue) < 0.0001;
     }
 
-    return stmt.targetValue === propValue;
+    return clause.targetValue === propValue;
   }
 
-  private matchesCanQuery(node: SongNode, stmt: QueryStatement): boolean {
-    if (stmt.target === null) {
+  private matchesCanQuery(node: SongNode, clause: QueryClause): boolean {
+    if (clause.target === null) {
       const abilities = node.getProperty('_Abilities') as Set<string> | null;
       return abilities !== null && abilities.size > 0;
     }
-    return this.nodeCan(node, stmt.target);
+    return this.nodeCan(node, clause.target);
   }
 
-  private filterByWhereCondition(nodes: SongNode[], stmt: QueryStatement): SongNode[] {
-    const result: SongNode[] = [];
-    const varName = stmt.subject.variableName ?? '_';
-
-    for (const node of nodes) {
-      this.context.set(varName, node);
-
-      try {
-        const conditionResult = this.evaluateExpression(stmt.whereCondition!);
+  private matchesWhereCondition(where: Expression, bindings: QueryBindings): boolean {
+    try {
+      const conditionResult = this.scope.run(() => this.evaluateExpression(where), bindings);
+      return (
+        (typeof conditionResult === 'boolean' && conditionResult) ||
+        (typeof conditionResult === 'number' && conditionResult !== 0)
+      );
+    } catch {
+      // 평가 실패 시 해당 바인딩은 제외
+      return false;
+    }
+  }
 
-        if (typeof conditionResult === 'boolean' && conditionResult) {
-          result.push(node);
-        } else if (typeof conditionResult === 'number' && conditionResult !== 0) {
-          result.push(node);
-        }
-      } catch {
-        // 평가 실패 시 해당 노드는 제외
-      } finally {
-        this.context.delete(varName);
-      }
+  /**
+   * 바인딩들에서 변수에 묶인 노드 (중복 없이 그래프 순서대로)
+   */
+  private boundNodes(solutions: QueryBindings[], varName: string): SongNode[] {
+    const nodes = new Set<SongNode>();
+    for (const bindings of solutions) {
+      const node = bindings.get(varName);
+      if (node !== undefined) nodes.add(node);
     }
+    return this._graph.allNodes.filter((node) => nodes.has(node));
+  }
 
-    return result;
+  /**
+   * 조건에 나오는 이름 있는 쿼리 변수들 (등장 순서)
+   */
+  private queryVariables(condition: QueryCondition): string[] {
+    const names: string[] = [];
+    const add = (name: string | null) => {
+      if (name !== null && !names.includes(name)) names.push(name);
+    };
+    const visit = (cond: QueryCondition): void => {
+      switch (cond.kind) {
+        case 'clause':
+          add(cond.subject?.variableName ?? null);
+          add(cond.targetVariable);
+          return;
+        case 'not':
+          return visit(cond.operand);
+        case 'and':
+        case 'or':
+          visit(cond.left);
+          return visit(cond.right);
+      }
+    };
+    visit(condition);
+    return names;
   }
 
+  /**
+   * 쿼리 변수의 마지막 결과 (ORDER BY 순서 유지, 없으면 빈 배열)
+   */
   getQueryResults(variableName: string): SongNode[] {
-    const resultNode = this._graph.getNode(variableName);
-    if (resultNode !== null) {
-      if (resultNode.is('QueryResult')) {
-        const items = resultNode.getProperty('_Items') as SongNode[] | null;
-        if (items !== null) {
-          return items;
-        }
-      }
+    return [...(this.queryResults.get(variableName) ?? [])];
+  }
+
+  /**
+   * 결과가 저장된 쿼리 변수 이름 (처음 저장된 순서)
+   */
+  listQueryResults(): string[] {
+    return [...this.queryResults.keys()];
+  }
+
+  /**
+   * 쿼리 결과 삭제 (이름이 없으면 전부)
+   */
+  clearQueryResults(variableName?: string): void {
+    if (variableName === undefined) {
+      this.queryResults.clear();
+    } else {
+      this.queryResults.delete(variableName);
     }
-    return [];
   }
 
   // Expression Evaluation
@@ -686,6 +1938,18 @@ export class Interpreter {
         return this.evaluateExpression(expr.inner);
       case 'random':
         return this.evaluateRandom(expr);
+      case 'interpolation':
+        return expr.parts
+          .map((part) => (typeof part === 'string' ? part : this.stringify(this.evaluateExpression(part))))
+          .join('');
+      case 'index':
+        return this.evaluateIndex(expr);
+      case 'list':
+        return expr.elements.map((element) => this.evaluateExpression(element));
+      case 'call':
+        return this.evaluateCall(expr);
+      case 'aggregate':
+        return this.evaluateAggregate(expr);
       default: {
         const exhaustiveCheck: never = expr;
         void exhaustiveCheck;
@@ -704,10 +1968,107 @@ export class Interpreter {
     return Math.floor(Math.random() * (max - min + 1)) + min;
   }
 
+  /**
+   * 함수 호출: 사용자 정의 함수가 같은 이름의 내장 함수보다 우선한다.
+   * 인자는 호출한 쪽에서 평가하고, 본문은 매개변수와 최상위 변수만 보이는 프레임에서 실행
+   */
+  private evaluateCall(call: Expression & { kind: 'call'; callee: string; args: Expression[] }): unknown {
+    const fn = this.functions.get(call.callee);
+    if (fn === undefined) {
+      const builtin = getBuiltin(call.callee);
+      if (builtin === null) {
+        throw new SongError(ErrorType.FunctionNotFound, `"${call.callee}"`, call.line, call.column);
+      }
+      const args = call.args.map((arg) => this.evaluateExpression(arg));
+      return callBuiltin(builtin, args, call.line, call.column);
+    }
+
+    if (call.args.length !== fn.parameters.length) {
+      throw new SongError(
+        ErrorType.InvalidOperand,
+        `"${fn.name}" expects ${fn.parameters.length} argument${fn.parameters.length === 1 ? '' : 's'}, got ${call.args.length}`,
+        call.line,
+        call.column
+      );
+    }
+
+    if (this.callDepth >= this.maxCallDepth) {
+      throw new SongError(
+        ErrorType.CallDepthExceeded,
+        `"${fn.name}" exceeded max call depth ${this.maxCallDepth}`,
+        call.line,
+        call.column
+      );
+    }
+
+    const bindings = fn.parameters.map((param, i): [string, unknown] => [param, this.evaluateExpression(call.args[i])]);
+    const previousWhenSubject = this.whenSubject;
+    this.whenSubject = null;
+    this.callDepth++;
+
+    try {
+      this.scope.runIsolated(() => this.execute(fn.body), bindings);
+    } catch (e) {
+      if (e instanceof ReturnSignal) {
+        return e.value;
+      }
+      throw e;
+    } finally {
+      this.callDepth--;
+      this.whenSubject = previousWhenSubject;
+    }
+
+    throw new SongError(ErrorType.RuntimeError, `"${fn.name}" ended without RETURN`, call.line, call.column);
+  }
+
+  /**
+   * 집계: 타입의 인스턴스 또는 쿼리 결과 노드에 대해 계산
+   * 속성이 없는 노드는 건너뛴다. 값이 하나도 없으면 SUM은 0, AVG/MIN/MAX는 오류.
+   */
+  private evaluateAggregate(expr: AggregateExpression): number {
+    const nodes = expr.isQuery ? this.getQueryResults(expr.source) : this.instancesOf(expr.source);
+
+    if (expr.func === AggregateFunction.Count || expr.property === null) {
+      return nodes.length;
+    }
+
+    const values: number[] = [];
+    for (const node of nodes) {
+      const value = node.getProperty(expr.property);
+      if (value === null || value === undefined) continue;
+      if (typeof value !== 'number') {
+        throw new SongError(
+          ErrorType.TypeMismatch,
+          `"${node.name}.${expr.property}" is not a Number`,
+          expr.line,
+          expr.column
+        );
+      }
+      values.push(value);
+    }
+
+    if (expr.func === AggregateFunction.Sum) {
+      return values.reduce((sum, value) => sum + value, 0);
+    }
+
+    if (values.length === 0) {
+      throw new SongError(ErrorType.InvalidOperand, `${aggregateToString(expr)} has no values`, expr.line, expr.column);
+    }
+
+    switch (expr.func) {
+      case AggregateFunction.Avg:
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
+      case AggregateFunction.Min:
+        return Math.min(...values);
+      case AggregateFunction.Max:
+        return Math.max(...values);
+    }
+  }
+
   private resolveIdentifier(id: Expression & { kind: 'identifier'; name: string }): unknown {
-    // 컨텍스트에서 먼저 찾기
-    if (this.context.has(id.name)) {
-      return this.context.get(id.name);
+    // 스코프에서 먼저 찾기
+    if (this.scope.has(id.name)) {
+      return this.scope.get(id.name);
     }
 
     // 그래프에서 노드 찾기
@@ -727,6 +2088,51 @@ export class Interpreter {
     throw new SongError(ErrorType.NodeNotFound, `"${id.name}"`, id.line, id.column);
   }
 
+  /**
+   * 인덱스 평가: Alice.TRUSTS[Bob]은 Alice에서 Bob으로 가는 TRUSTS 간선
+   */
+  private evaluateIndex(expr: Expression & { kind: 'index'; object: Expression; index: Expression }): unknown {
+    if (expr.object.kind === 'propertyAccess') {
+      const owner = this.evaluateExpression(expr.object.object);
+      const relation = expr.object.property;
+
+      // 같은 이름의 속성이 없으면 관계 간선 조회
+      if (owner instanceof SongNode && owner.getProperty(relation) === null) {
+        const target = this.evaluateExpression(expr.index);
+        if (!(target instanceof SongNode)) {
+          throw new SongError(ErrorType.TypeMismatch, `'${relation}' edge index must be a Node`, expr.line, expr.column);
+        }
+
+        const edge = this._graph.findEdge(owner, relation, target);
+        if (edge === null) {
+          throw new SongError(
+            ErrorType.PropertyNotFound,
+            `"${owner.name}" has no "${relation}" edge to "${target.name}"`,
+            expr.line,
+            expr.column
+          );
+        }
+        return edge;
+      }
+    }
+
+    const obj = this.evaluateExpression(expr.object);
+    if (Array.isArray(obj)) {
+      const index = this.toNumber(this.evaluateExpression(expr.index), expr.index);
+      if (!Number.isInteger(index) || index < 0 || index >= obj.length) {
+        throw new SongError(
+          ErrorType.InvalidOperand,
+          `Index ${index} out of range (length ${obj.length})`,
+          expr.line,
+          expr.column
+        );
+      }
+      return obj[index];
+    }
+
+    throw new SongError(ErrorType.TypeMismatch, `'${this.stringify(obj)}' cannot be indexed`, expr.line, expr.column);
+  }
+
   private resolvePropertyAccess(prop: Expression & { kind: 'propertyAccess'; object: Expression; property: string }): unknown {
     const obj = this.evaluateExpression(prop.object);
 
@@ -743,6 +2149,27 @@ export class Interpreter {
       return value;
     }
 
+    // 리스트 길이: Player.Tags.Length
+    if (Array.isArray(obj)) {
+      if (prop.property === 'Length') {
+        return obj.length;
+      }
+      throw new SongError(ErrorType.PropertyNotFound, `List has no "${prop.property}"`, prop.line, prop.column);
+    }
+
+    if (obj instanceof RelationEdge) {
+      const value = obj.getProperty(prop.property);
+      if (value === null) {
+        throw new SongError(
+          ErrorType.PropertyNotFound,
+          `"${obj.toString()}" has no "${prop.property}"`,
+          prop.line,
+          prop.column
+        );
+      }
+      return value;
+    }
+
     throw new SongError(ErrorType.TypeMismatch, `'${prop.object}' is not a Node`, prop.line, prop.column);
   }
 
@@ -767,6 +2194,9 @@ export class Interpreter {
       case BinaryOperator.Add:
         return this.add(leftVal, rightVal, bin);
       case BinaryOperator.Subtract:
+        if (Array.isArray(leftVal)) {
+          return this.removeElement(leftVal, rightVal);
+        }
         return this.toNumber(leftVal, bin.left) - this.toNumber(rightVal, bin.right);
       case BinaryOperator.Multiply:
         return this.toNumber(leftVal, bin.left) * this.toNumber(rightVal, bin.right);
@@ -796,6 +2226,8 @@ export class Interpreter {
         return this.compare(leftVal, rightVal, bin) <= 0;
       case BinaryOperator.GreaterEqual:
         return this.compare(leftVal, rightVal, bin) >= 0;
+      case BinaryOperator.Contains:
+        return this.contains(leftVal, rightVal, bin);
       default:
         throw new InterpreterError(`알 수 없는 연산자: ${bin.operator}`, bin.line, bin.column);
     }
@@ -819,10 +2251,25 @@ export class Interpreter {
     if (typeof value === 'boolean') return value;
     if (typeof value === 'number') return value !== 0;
     if (typeof value === 'string') return value.length > 0;
+    if (Array.isArray(value)) return value.length > 0;
     if (value instanceof SongNode) return true;
     return true;
   }
 
+  /**
+   * 값을 출력용 문자열로 변환 (노드는 Name 속성 또는 이름)
+   */
+  private stringify(value: unknown): string {
+    if (value instanceof SongNode) {
+      const name = value.getProperty('Name');
+      return name !== null && name !== undefined ? String(name) : value.name;
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map((element) => this.stringify(element)).join(', ')}]`;
+    }
+    return value !== null && value !== undefined ? String(value) : 'null';
+  }
+
   private toNumber(value: unknown, expr: Expression): number {
     if (typeof value === 'number') return value;
     if (typeof value === 'boolean') return value ? 1 : 0;
@@ -833,8 +2280,12 @@ export class Interpreter {
   }
 
   private add(left: unknown, right: unknown, expr: Expression): unknown {
+    // 리스트 + 리스트는 이어 붙이고, 리스트 + 값은 끝에 추가
+    if (Array.isArray(left)) {
+      return Array.isArray(right) ? [...left, ...right] : [...left, right];
+    }
     if (typeof left === 'string' || typeof right === 'string') {
-      return `${left}${right}`;
+      return this.stringify(left) + this.stringify(right);
     }
     return this.toNumber(left, expr) + this.toNumber(right, expr);
   }
@@ -851,9 +2302,30 @@ export class Interpreter {
     if (left === null && right === null) return true;
     if (left === undefined && right === undefined) return true;
     if (left === null || left === undefined || right === null || right === undefined) return false;
+    if (Array.isArray(left) && Array.isArray(right)) {
+      return left.length === right.length && left.every((element, i) => this.equals(element, right[i]));
+    }
     return left === right;
   }
 
+  private contains(container: unknown, value: unknown, expr: Expression): boolean {
+    if (Array.isArray(container)) {
+      return container.some((element) => this.equals(element, value));
+    }
+    if (typeof container === 'string') {
+      return container.includes(this.stringify(value));
+    }
+    throw new SongError(ErrorType.TypeMismatch, 'CONTAINS requires a List or String', expr.line, expr.column);
+  }
+
+  /**
+   * 첫 번째로 일치하는 요소를 뺀 새 리스트
+   */
+  private removeElement(list: unknown[], value: unknown): unknown[] {
+    const index = list.findIndex((element) => this.equals(element, value));
+    return index === -1 ? list : [...list.slice(0, index), ...list.slice(index + 1)];
+  }
+
   private nodeCan(node: SongNode, ability: string): boolean {
     const abilities = node.getProperty('_Abilities') as Set<string> | null;
     if (abilities?.has(ability)) {
@@ -1,3 +1,11 @@
+/**
+ * 노드 변경 내용 (트리거가 감시한다)
+ * property의 oldValue는 바뀌기 전 자신의 값이다 (없었으면 undefined).
+ */
+export type NodeMutation =
+  | { readonly kind: 'property'; readonly node: SongNode; readonly property: string; readonly oldValue: unknown }
+  | { readonly kind: 'parent'; readonly node: SongNode; readonly parent: SongNode; readonly added: boolean };
+
 /**
  * Song 언어의 노드
  * 노드는 관계의 집합이다. 이름과 속성들을 가진다.
@@ -15,6 +23,18 @@ export class SongNode {
    */
   readonly properties: Map<string, unknown> = new Map();
 
+  /**
+   * 규칙(RULE)에서 유도된 부모와 속성
+   * 직접 IS / HAS로 다시 지정하거나 지우면 유도 표시도 사라진다.
+   */
+  readonly derivedParents: Set<SongNode> = new Set();
+  readonly derivedProperties: Set<string> = new Set();
+
+  /**
+   * 속성, 부모가 바뀔 때 호출되는 함수 (그래프가 노드를 만들 때 연결한다)
+   */
+  onMutation: ((mutation: NodeMutation) => void) | null = null;
+
   constructor(name: string) {
     this.name = name;
   }
@@ -43,15 +63,20 @@ export class SongNode {
    * 속성 값 설정하기
    */
   setProperty(name: string, value: unknown): void {
+    const oldValue = this.properties.get(name);
     this.properties.set(name, value);
+    this.derivedProperties.delete(name);
+    this.onMutation?.({ kind: 'property', node: this, property: name, oldValue });
   }
 
   /**
    * 부모 노드 추가 (IS 관계)
    */
   addParent(parent: SongNode): void {
+    this.derivedParents.delete(parent);
     if (!this.parents.includes(parent)) {
       this.parents.push(parent);
+      this.onMutation?.({ kind: 'parent', node: this, parent, added: true });
     }
   }
 
@@ -59,9 +84,11 @@ export class SongNode {
    * 부모 노드 제거 (LOSES IS)
    */
   removeParent(parent: SongNode): void {
+    this.derivedParents.delete(parent);
     const index = this.parents.indexOf(parent);
     if (index !== -1) {
       this.parents.splice(index, 1);
+      this.onMutation?.({ kind: 'parent', node: this, parent, added: false });
     }
   }
 
@@ -76,7 +103,11 @@ export class SongNode {
    * 속성 제거
    */
   removeProperty(name: string): void {
-    this.properties.delete(name);
+    const oldValue = this.properties.get(name);
+    this.derivedProperties.delete(name);
+    if (this.properties.delete(name)) {
+      this.onMutation?.({ kind: 'property', node: this, property: name, oldValue });
+    }
   }
 
   /**
@@ -0,0 +1,81 @@
+/**
+ * 블록 스코프 변수 저장소
+ * 블록에 들어갈 때 프레임을 쌓고, 나올 때 프레임째 버린다.
+ * 이름은 가장 안쪽 프레임부터 바깥쪽으로 찾는다.
+ */
+export class Scope {
+  /**
+   * 프레임 스택 (0번은 스크립트 최상위 프레임)
+   */
+  private readonly frames: Map<string, unknown>[] = [new Map()];
+
+  /**
+   * 이름이 어느 프레임에든 있는지 확인
+   */
+  has(name: string): boolean {
+    return this.findFrame(name) !== null;
+  }
+
+  /**
+   * 가장 가까운 프레임의 값 (없으면 undefined)
+   */
+  get(name: string): unknown {
+    return this.findFrame(name)?.get(name);
+  }
+
+  /**
+   * 현재 프레임에 변수 선언 (LET, 역할/반복 변수 바인딩)
+   * 바깥 프레임의 같은 이름은 가려진다.
+   */
+  declare(name: string, value: unknown): void {
+    this.frames[this.frames.length - 1].set(name, value);
+  }
+
+  /**
+   * 가장 가까운 프레임의 변수 값 변경 (SET)
+   * 선언된 적 없는 이름이면 false를 반환한다.
+   */
+  assign(name: string, value: unknown): boolean {
+    const frame = this.findFrame(name);
+    if (frame === null) {
+      return false;
+    }
+    frame.set(name, value);
+    return true;
+  }
+
+  /**
+   * 새 프레임에서 실행하고, 끝나면(예외 포함) 프레임을 버린다
+   */
+  run<T>(fn: () => T, bindings: Iterable<readonly [string, unknown]> = []): T {
+    const frame = new Map<string, unknown>(bindings);
+    this.frames.push(frame);
+    try {
+      return fn();
+    } finally {
+      this.frames.pop();
+    }
+  }
+
+  /**
+   * 최상위 프레임만 보이는 상태에서 새 프레임으로 실행 (함수 호출)
+   * 호출한 쪽의 블록 변수는 보이지 않으며, 끝나면 그대로 되돌린다.
+   */
+  runIsolated<T>(fn: () => T, bindings: Iterable<readonly [string, unknown]> = []): T {
+    const callerFrames = this.frames.splice(1);
+    try {
+      return this.run(fn, bindings);
+    } finally {
+      this.frames.push(...callerFrames);
+    }
+  }
+
+  private findFrame(name: string): Map<string, unknown> | null {
+    for (let i = this.frames.length - 1; i >= 0; i--) {
+      if (this.frames[i].has(name)) {
+        return this.frames[i];
+      }
+    }
+    return null;
+  }
+}
@@ -17,6 +17,16 @@ export enum ErrorType {
   // 능력 관련
   CannotPerform = 'CannotPerform',
 
+  // 반복 관련
+  LoopLimitExceeded = 'LoopLimitExceeded',
+
+  // 함수 관련
+  FunctionNotFound = 'FunctionNotFound',
+  CallDepthExceeded = 'CallDepthExceeded',
+
+  // 트리거 관련
+  TriggerCascadeExceeded = 'TriggerCascadeExceeded',
+
   // 구문 관련
   SyntaxError = 'SyntaxError',
   UnexpectedToken = 'UnexpectedToken',
@@ -74,6 +84,14 @@ export class SongError extends Error {
         return 'Invalid operand';
       case ErrorType.CannotPerform:
         return 'Cannot perform';
+      case ErrorType.LoopLimitExceeded:
+        return 'Loop limit exceeded';
+      case ErrorType.FunctionNotFound:
+        return 'Function not found';
+      case ErrorType.CallDepthExceeded:
+        return 'Call depth exceeded';
+      case ErrorType.TriggerCascadeExceeded:
+        return 'Trigger cascade limit exceeded';
       case ErrorType.SyntaxError:
         return 'Syntax error';
       case ErrorType.UnexpectedToken:
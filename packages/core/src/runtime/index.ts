@@ -1,4 +1,13 @@
-export { SongNode } from './Node.js';
-export { Graph, type NodeData, type EdgeData, type GraphData } from './Graph.js';
-export { Interpreter, type OutputCallback, type InterpreterOptions } from './Interpreter.js';
+export { SongNode, type NodeMutation } from './Node.js';
+export { RelationEdge } from './Edge.js';
+export { Graph, type NodeData, type EdgeData, type GraphData, type GraphMutation } from './Graph.js';
+export {
+  Interpreter,
+  DEFAULT_MAX_LOOP_ITERATIONS,
+  DEFAULT_MAX_CALL_DEPTH,
+  DEFAULT_MAX_TRIGGER_CASCADE,
+  type OutputCallback,
+  type InterpreterOptions,
+} from './Interpreter.js';
+export { listBuiltins, type BuiltinInfo } from './Builtins.js';
 export { SongError, InterpreterError, ErrorType, fromException } from './SongError.js';
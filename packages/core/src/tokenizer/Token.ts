@@ -1,28 +1,74 @@
 import { TokenType } from './TokenType.js';
 
+/**
+ * 소스 코드 상의 범위
+ * line/column은 시작 위치(1부터), endLine/endColumn은 끝 바로 다음 위치.
+ * offset/endOffset은 소스 문자열의 인덱스 [offset, endOffset).
+ *
+ * 호환성 주의: createToken과 create*Expr / create*Stmt 헬퍼는 마지막 인자로 (line, column) 대신
+ * SourceSpan을 받는다. 이전 형태로 호출하던 코드는 spanBetween이나 직접 만든 범위를 넘겨야 한다.
+ */
+export interface SourceSpan {
+  readonly line: number;
+  readonly column: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+  readonly offset: number;
+  readonly endOffset: number;
+}
+
+/**
+ * start의 시작부터 end의 끝까지의 범위
+ */
+export function spanBetween(start: SourceSpan, end: SourceSpan): SourceSpan {
+  return {
+    line: start.line,
+    column: start.column,
+    endLine: end.endLine,
+    endColumn: end.endColumn,
+    offset: start.offset,
+    endOffset: end.endOffset,
+  };
+}
+
+/**
+ * 범위 필드만 복사 (토큰 등 다른 필드를 가진 객체에서)
+ */
+export function copySpan(span: SourceSpan): SourceSpan {
+  return spanBetween(span, span);
+}
+
 /**
  * Song 언어의 토큰
  */
-export interface Token {
+export interface Token extends SourceSpan {
   readonly type: TokenType;
   readonly lexeme: string;
   readonly value: unknown;
-  readonly line: number;
-  readonly column: number;
 }
 
-export function createToken(
-  type: TokenType,
-  lexeme: string,
-  value: unknown,
-  line: number,
-  column: number
-): Token {
-  return { type, lexeme, value, line, column };
+/**
+ * 소스 코드 주석 (// ...)
+ * 토큰 스트림에는 포함되지 않으며 포매터가 위치를 보존하는 데 사용한다.
+ */
+export interface SourceComment extends SourceSpan {
+  readonly text: string;
+}
+
+/**
+ * 보간 문자열의 조각: 일반 텍스트 또는 {표현식}의 토큰들
+ */
+export type TemplatePart = string | Token[];
+
+export function createToken(type: TokenType, lexeme: string, value: unknown, span: SourceSpan): Token {
+  return { type, lexeme, value, ...copySpan(span) };
 }
 
 export function tokenToString(token: Token): string {
-  return token.value === null || token.value === undefined
-    ? `[${token.type}] '${token.lexeme}' at ${token.line}:${token.column}`
-    : `[${token.type}] '${token.lexeme}' = ${token.value} at ${token.line}:${token.column}`;
+  // NEWLINE 토큰이 출력 줄을 나누지 않도록 이스케이프
+  const lexeme = token.lexeme.replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+  // 보간 문자열의 값(조각 목록)은 lexeme에 이미 그대로 보이므로 생략
+  return token.value === null || token.value === undefined || token.type === TokenType.TEMPLATE_STRING
+    ? `[${token.type}] '${lexeme}' at ${token.line}:${token.column}`
+    : `[${token.type}] '${lexeme}' = ${token.value} at ${token.line}:${token.column}`;
 }
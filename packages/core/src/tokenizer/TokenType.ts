@@ -29,12 +29,15 @@ export enum TokenType {
   IDENTIFIER = 'IDENTIFIER',
   NUMBER = 'NUMBER',
   STRING = 'STRING',
+  TEMPLATE_STRING = 'TEMPLATE_STRING',
 
   // Delimiters
   LBRACE = 'LBRACE',
   RBRACE = 'RBRACE',
   LPAREN = 'LPAREN',
   RPAREN = 'RPAREN',
+  LBRACKET = 'LBRACKET',
+  RBRACKET = 'RBRACKET',
   COMMA = 'COMMA',
 
   // Operators
@@ -45,6 +48,7 @@ export enum TokenType {
   SLASH = 'SLASH',
   MODULO = 'MODULO',
   EQ = 'EQ',
+  ASSIGN = 'ASSIGN',
   NEQ = 'NEQ',
   LT = 'LT',
   GT = 'GT',
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { Tokenizer, TokenizerError } from './Tokenizer.js';
+import { TokenType } from './TokenType.js';
+import { Token, tokenToString } from './Token.js';
+
+function types(tokens: Token[]): TokenType[] {
+  return tokens.map((token) => token.type);
+}
+
+describe('Tokenizer', () => {
+  describe('이스케이프', () => {
+    it('알려진 이스케이프 시퀀스를 변환한다', () => {
+      const [token] = new Tokenizer(String.raw`"a\"b\\c\nd\te\{f\}"`).tokenize();
+      expect(token.type).toBe(TokenType.STRING);
+      expect(token.value).toBe('a"b\\c\nd\te{f}');
+    });
+
+    it('알 수 없는 이스케이프는 역슬래시까지 그대로 둔다', () => {
+      const [token] = new Tokenizer(String.raw`"C:\path\q"`).tokenize();
+      expect(token.type).toBe(TokenType.STRING);
+      expect(token.value).toBe(String.raw`C:\path\q`);
+    });
+  });
+
+  describe('유니코드 식별자', () => {
+    it('한글과 유니코드 문자를 식별자로 읽는다', () => {
+      const tokens = new Tokenizer('용사 HAS 체력 100\nÉlan IS Héros').tokenize();
+      expect(tokens.filter((token) => token.type === TokenType.IDENTIFIER).map((token) => token.lexeme)).toEqual([
+        '용사',
+        '체력',
+        'Élan',
+        'Héros',
+      ]);
+    });
+
+    it('같은 글자의 다른 코드 포인트 조합은 NFC로 맞춘다', () => {
+      const decomposed = '\u1112\u1161\u11ab'; // '한'의 NFD 형태
+      const [identifier, , queryVar] = new Tokenizer(`${decomposed} IS ?${decomposed}`).tokenize();
+      expect(identifier.lexeme).toBe('한');
+      expect(queryVar.value).toBe('한');
+    });
+
+    it('서로게이트 쌍은 한 열로 센다', () => {
+      const [identifier, print] = new Tokenizer('𝒳y PRINT').tokenize();
+      expect(identifier.lexeme).toBe('𝒳y');
+      expect(print.column).toBe(4);
+    });
+  });
+
+  describe('보간', () => {
+    it('{표현식}이 있으면 템플릿 문자열로 나눈다', () => {
+      const [token] = new Tokenizer('"HP: {Player.HP}!"').tokenize();
+      expect(token.type).toBe(TokenType.TEMPLATE_STRING);
+
+      const parts = token.value as (string | Token[])[];
+      expect(parts[0]).toBe('HP: ');
+      expect(types(parts[1] as Token[])).toEqual([
+        TokenType.IDENTIFIER,
+        TokenType.DOT,
+        TokenType.IDENTIFIER,
+        TokenType.EOF,
+      ]);
+      expect(parts[2]).toBe('!');
+    });
+
+    it('보간 표현식 토큰은 원본 기준 위치를 가진다', () => {
+      const [token] = new Tokenizer('"x {Hero}"').tokenize();
+      const [identifier] = (token.value as (string | Token[])[])[1] as Token[];
+      expect(identifier.lexeme).toBe('Hero');
+      expect(identifier.column).toBe(5);
+      expect(identifier.offset).toBe(4);
+    });
+
+    it('토큰 문자열에는 조각 목록 대신 원문만 보인다', () => {
+      const [token] = new Tokenizer('"a {b} c"').tokenize();
+      expect(tokenToString(token)).toBe(`[TEMPLATE_STRING] '"a {b} c"' at 1:1`);
+    });
+
+    it('빈 보간과 닫히지 않은 보간은 오류', () => {
+      expect(() => new Tokenizer('"{}"').tokenize()).toThrow(TokenizerError);
+      expect(() => new Tokenizer('"{Player"').tokenize()).toThrow(TokenizerError);
+    });
+  });
+
+  describe('오류 복구', () => {
+    it('예상치 못한 문자를 기록하고 계속 토큰화한다', () => {
+      const { tokens, errors } = new Tokenizer('Player HAS HP 10 @\nPlayer PRINT').tokenizeWithDiagnostics();
+      expect(errors).toHaveLength(1);
+      expect(errors[0].line).toBe(1);
+      expect(types(tokens)).toEqual([
+        TokenType.IDENTIFIER,
+        TokenType.HAS,
+        TokenType.IDENTIFIER,
+        TokenType.NUMBER,
+        TokenType.NEWLINE,
+        TokenType.IDENTIFIER,
+        TokenType.PRINT,
+        TokenType.EOF,
+      ]);
+    });
+
+    it('알 수 없는 이스케이프는 오류 없이 같은 문자열을 닫는 따옴표까지 읽는다', () => {
+      const { tokens, errors } = new Tokenizer('A HAS Text "a\\qb"\nB PRINT').tokenizeWithDiagnostics();
+      expect(errors).toEqual([]);
+      expect(types(tokens)).toEqual([
+        TokenType.IDENTIFIER,
+        TokenType.HAS,
+        TokenType.IDENTIFIER,
+        TokenType.STRING,
+        TokenType.NEWLINE,
+        TokenType.IDENTIFIER,
+        TokenType.PRINT,
+        TokenType.EOF,
+      ]);
+      expect(tokens[5].line).toBe(2);
+    });
+
+    it('보간 표현식 안의 오류도 모은다', () => {
+      const { tokens, errors } = new Tokenizer('"{Player # 1}" PRINT').tokenizeWithDiagnostics();
+      expect(errors).toHaveLength(1);
+      expect(types(tokens)).toEqual([TokenType.TEMPLATE_STRING, TokenType.PRINT, TokenType.EOF]);
+    });
+  });
+
+  describe('소스 범위', () => {
+    it('토큰은 끝 위치와 원문 offset을 가진다', () => {
+      const source = 'Hero HAS\n  Name "a b"';
+      const tokens = new Tokenizer(source).tokenize();
+      expect(tokens.map((token) => source.slice(token.offset, token.endOffset))).toEqual([
+        'Hero',
+        'HAS',
+        '\n',
+        'Name',
+        '"a b"',
+        '',
+      ]);
+      expect(tokens[4]).toMatchObject({ line: 2, column: 8, endLine: 2, endColumn: 13 });
+    });
+  });
+});
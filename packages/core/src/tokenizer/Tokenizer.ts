@@ -1,5 +1,5 @@
 import { TokenType } from './TokenType.js';
-import { Token, createToken } from './Token.js';
+import { Token, TemplatePart, SourceComment, createToken } from './Token.js';
 
 /**
  * 토크나이저 오류
@@ -18,6 +18,8 @@ export class TokenizerError extends Error {
 
 /**
  * 키워드 맵 (대소문자 무시)
+ * WITH, AS, LET, FUNCTION, RULE, ON 등 나중에 생긴 문법 단어는 기존 스크립트의 노드/속성 이름과 겹치지 않도록
+ * 예약하지 않고 파서가 문맥으로 해석한다.
  */
 const KEYWORDS: Record<string, TokenType> = {
   is: TokenType.IS,
@@ -42,6 +44,33 @@ const KEYWORDS: Record<string, TokenType> = {
   not: TokenType.NOT,
 };
 
+/**
+ * 문자열 이스케이프 시퀀스
+ */
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '{': '{',
+  '}': '}',
+};
+
+/**
+ * 식별자 문자 (유니코드 ID_Start / ID_Continue)
+ */
+const IDENTIFIER_START = /^\p{ID_Start}$/u;
+const IDENTIFIER_PART = /^\p{ID_Continue}$/u;
+
+/**
+ * 오류 복구 모드 토큰화 결과
+ */
+export interface TokenizeResult {
+  readonly tokens: Token[];
+  readonly errors: TokenizerError[];
+}
+
 /**
  * Song 언어의 토크나이저
  * 소스 코드를 토큰 배열로 변환한다.
@@ -49,28 +78,76 @@ const KEYWORDS: Record<string, TokenType> = {
 export class Tokenizer {
   private readonly source: string;
   private readonly tokens: Token[] = [];
+  private readonly _comments: SourceComment[] = [];
 
   private start = 0;
+  private tokenStartLine = 1;
   private current = 0;
   private line = 1;
   private column = 1;
   private tokenStartColumn = 1;
 
-  constructor(source: string) {
+  // 오류 복구 모드: 오류를 모으고 다음 문자부터 계속 토큰화
+  private recover = false;
+  private readonly errors: TokenizerError[] = [];
+
+  // 보간 표현식처럼 더 큰 소스의 일부를 토큰화할 때 원본 기준 위치
+  private readonly baseOffset: number;
+
+  constructor(source: string, line = 1, column = 1, baseOffset = 0) {
     this.source = source;
+    this.line = line;
+    this.column = column;
+    this.baseOffset = baseOffset;
+  }
+
+  /**
+   * 토큰화 중 만난 주석들 (소스 순서)
+   */
+  get comments(): SourceComment[] {
+    return this._comments;
   }
 
   tokenize(): Token[] {
     while (!this.isAtEnd()) {
       this.start = this.current;
+      this.tokenStartLine = this.line;
       this.tokenStartColumn = this.column;
-      this.scanToken();
+
+      try {
+        this.scanToken();
+      } catch (error) {
+        if (!this.recover || !(error instanceof TokenizerError)) {
+          throw error;
+        }
+        this.errors.push(error);
+      }
     }
 
-    this.tokens.push(createToken(TokenType.EOF, '', null, this.line, this.column));
+    const endOffset = this.baseOffset + this.current;
+    this.tokens.push(
+      createToken(TokenType.EOF, '', null, {
+        line: this.line,
+        column: this.column,
+        endLine: this.line,
+        endColumn: this.column,
+        offset: endOffset,
+        endOffset,
+      })
+    );
     return this.tokens;
   }
 
+  /**
+   * 오류 복구 모드로 토큰화한다.
+   * 예상치 못한 문자는 오류로 기록하고 건너뛴 뒤 계속 진행한다.
+   */
+  tokenizeWithDiagnostics(): TokenizeResult {
+    this.recover = true;
+    const tokens = this.tokenize();
+    return { tokens, errors: [...this.errors] };
+  }
+
   private scanToken(): void {
     const c = this.advance();
 
@@ -87,6 +164,12 @@ export class Tokenizer {
       case ')':
         this.addToken(TokenType.RPAREN);
         break;
+      case '[':
+        this.addToken(TokenType.LBRACKET);
+        break;
+      case ']':
+        this.addToken(TokenType.RBRACKET);
+        break;
       case ',':
         this.addToken(TokenType.COMMA);
         break;
@@ -107,10 +190,11 @@ export class Tokenizer {
         break;
       case '/':
         if (this.peek() === '/') {
-          // 주석: 줄 끝까지 무시
+          // 주석: 줄 끝까지 토큰으로 만들지 않고 따로 기록
           while (this.peek() !== '\n' && !this.isAtEnd()) {
             this.advance();
           }
+          this.addComment();
         } else {
           this.addToken(TokenType.SLASH);
         }
@@ -120,7 +204,8 @@ export class Tokenizer {
           this.advance();
           this.addToken(TokenType.EQ);
         } else {
-          throw new TokenizerError("'=' 단독 사용 불가, '==' 사용하세요", this.line, this.tokenStartColumn);
+          // 단독 '='는 LET / SET 대입에만 쓰인다
+          this.addToken(TokenType.ASSIGN);
         }
         break;
       case '!':
@@ -168,7 +253,7 @@ export class Tokenizer {
       default:
         if (this.isDigit(c)) {
           this.scanNumber();
-        } else if (this.isAlpha(c)) {
+        } else if (this.isAlpha(this.completeSurrogatePair(c))) {
           this.scanIdentifier();
         } else {
           throw new TokenizerError(`예상치 못한 문자 '${c}'`, this.line, this.tokenStartColumn);
@@ -178,24 +263,115 @@ export class Tokenizer {
   }
 
   private scanString(): void {
+    const parts: TemplatePart[] = [];
+    let text = '';
+
     while (this.peek() !== '"' && !this.isAtEnd()) {
-      if (this.peek() === '\n') {
-        this.line++;
-        this.column = 0;
+      const c = this.peek();
+
+      if (c === '\\') {
+        this.advance(); // '\'
+        text += this.scanEscape();
+      } else if (c === '{') {
+        this.advance(); // '{'
+        if (text.length > 0) {
+          parts.push(text);
+          text = '';
+        }
+        parts.push(this.scanInterpolation());
+      } else {
+        if (c === '\n') {
+          this.line++;
+          this.column = 0;
+        }
+        text += this.advance();
       }
-      this.advance();
     }
 
     if (this.isAtEnd()) {
-      throw new TokenizerError('닫히지 않은 문자열', this.line, this.tokenStartColumn);
+      throw new TokenizerError('닫히지 않은 문자열', this.tokenStartLine, this.tokenStartColumn);
     }
 
     // 닫는 따옴표
     this.advance();
 
-    // 따옴표 제거한 값
-    const value = this.source.slice(this.start + 1, this.current - 1);
-    this.addToken(TokenType.STRING, value);
+    // 보간이 없으면 일반 문자열
+    if (parts.length === 0) {
+      this.addToken(TokenType.STRING, text);
+      return;
+    }
+
+    if (text.length > 0) {
+      parts.push(text);
+    }
+    this.addToken(TokenType.TEMPLATE_STRING, parts);
+  }
+
+  /**
+   * 역슬래시 뒤의 이스케이프 시퀀스 변환
+   * 알 수 없는 시퀀스는 역슬래시까지 원문 그대로 둔다 ("C:\path").
+   */
+  private scanEscape(): string {
+    if (this.isAtEnd()) {
+      throw new TokenizerError('닫히지 않은 문자열', this.tokenStartLine, this.tokenStartColumn);
+    }
+
+    const c = this.advance();
+    const escaped = ESCAPES[c];
+    if (escaped !== undefined) {
+      return escaped;
+    }
+
+    if (c === '\n') {
+      this.line++;
+      this.column = 1;
+    }
+    return `\\${c}`;
+  }
+
+  /**
+   * 문자열 안의 {표현식}을 토큰화한다. 여는 '{'는 이미 소비된 상태.
+   */
+  private scanInterpolation(): Token[] {
+    const exprStart = this.current;
+    const exprLine = this.line;
+    const exprColumn = this.column;
+    const braceColumn = this.column - 1;
+
+    while (this.peek() !== '}') {
+      if (this.isAtEnd() || this.peek() === '\n') {
+        throw new TokenizerError("보간 표현식이 닫히지 않았습니다. '}'가 필요합니다", this.line, braceColumn);
+      }
+
+      // 표현식 안의 문자열은 통째로 건너뛴다
+      if (this.advance() === '"') {
+        while (this.peek() !== '"') {
+          if (this.isAtEnd() || this.peek() === '\n') {
+            throw new TokenizerError('닫히지 않은 문자열', this.line, braceColumn);
+          }
+          if (this.advance() === '\\' && !this.isAtEnd()) {
+            this.advance();
+          }
+        }
+        this.advance(); // 닫는 따옴표
+      }
+    }
+
+    const exprSource = this.source.slice(exprStart, this.current);
+    this.advance(); // '}'
+
+    if (exprSource.trim().length === 0) {
+      throw new TokenizerError('빈 보간 표현식', exprLine, braceColumn);
+    }
+
+    const tokenizer = new Tokenizer(exprSource, exprLine, exprColumn, this.baseOffset + exprStart);
+    if (!this.recover) {
+      return tokenizer.tokenize();
+    }
+
+    const result = tokenizer.tokenizeWithDiagnostics();
+    this.errors.push(...result.errors);
+    return result.tokens;
   }
 
   private scanNumber(): void {
@@ -218,31 +394,32 @@ export class Tokenizer {
   }
 
   private scanIdentifier(): void {
-    while (this.isAlphaNumeric(this.peek())) {
-      this.advance();
+    while (this.isAlphaNumeric(this.peekChar())) {
+      this.advanceChar();
     }
 
-    const text = this.source.slice(this.start, this.current);
+    // 같은 문자열이 다른 코드 포인트 조합으로 입력되어도 같은 이름이 되도록 NFC 정규화
+    const text = this.source.slice(this.start, this.current).normalize('NFC');
 
     // 키워드 확인 (대소문자 무시)
     const lowerText = text.toLowerCase();
     const type = KEYWORDS[lowerText] ?? TokenType.IDENTIFIER;
 
-    this.addToken(type);
+    this.addToken(type, null, text);
   }
 
   private scanQuery(): void {
     // ? 다음에 식별자가 오면 QUERY_VAR (?name)
     // 아니면 QUESTION (?)
-    if (this.isAlpha(this.peek())) {
+    if (this.isAlpha(this.peekChar())) {
       // ?name 패턴
-      while (this.isAlphaNumeric(this.peek())) {
-        this.advance();
+      while (this.isAlphaNumeric(this.peekChar())) {
+        this.advanceChar();
       }
 
       // ? 제외한 변수명
-      const varName = this.source.slice(this.start + 1, this.current);
-      this.addToken(TokenType.QUERY_VAR, varName);
+      const varName = this.source.slice(this.start + 1, this.current).normalize('NFC');
+      this.addToken(TokenType.QUERY_VAR, varName, `?${varName}`);
     } else {
       // 단독 ?
       this.addToken(TokenType.QUESTION);
@@ -254,6 +431,36 @@ export class Tokenizer {
     return this.source[this.current++];
   }
 
+  /**
+   * 서로게이트 쌍을 포함한 한 문자 소비 (열은 문자 단위로 증가)
+   */
+  private advanceChar(): string {
+    const c = this.peekChar();
+    this.current += c.length;
+    this.column++;
+    return c;
+  }
+
+  /**
+   * 현재 위치의 한 문자 (서로게이트 쌍이면 두 코드 유닛)
+   */
+  private peekChar(): string {
+    if (this.isAtEnd()) return '\0';
+    return String.fromCodePoint(this.source.codePointAt(this.current)!);
+  }
+
+  /**
+   * 방금 소비한 코드 유닛이 상위 서로게이트면 하위 서로게이트까지 소비하여 완전한 문자를 돌려준다
+   */
+  private completeSurrogatePair(c: string): string {
+    const full = String.fromCodePoint(this.source.codePointAt(this.current - 1)!);
+    if (full.length === 2 && full[0] === c) {
+      this.current++;
+      return full;
+    }
+    return c;
+  }
+
   private peek(): string {
     if (this.isAtEnd()) return '\0';
     return this.source[this.current];
@@ -272,16 +479,43 @@ export class Tokenizer {
     return c >= '0' && c <= '9';
   }
 
+  /**
+   * 식별자 시작 문자: 유니코드 문자(한글 포함) 또는 '_'
+   */
   private isAlpha(c: string): boolean {
-    return (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z') || c === '_';
+    return c === '_' || IDENTIFIER_START.test(c);
   }
 
+  /**
+   * 식별자 구성 문자: 유니코드 문자, 숫자, 결합 문자, '_'
+   */
   private isAlphaNumeric(c: string): boolean {
-    return this.isAlpha(c) || this.isDigit(c);
+    return IDENTIFIER_PART.test(c);
   }
 
-  private addToken(type: TokenType, value: unknown = null): void {
-    const lexeme = this.source.slice(this.start, this.current);
-    this.tokens.push(createToken(type, lexeme, value, this.line, this.tokenStartColumn));
+  private addComment(): void {
+    const text = this.source.slice(this.start, this.current).trimEnd();
+    this._comments.push({
+      text,
+      line: this.tokenStartLine,
+      column: this.tokenStartColumn,
+      endLine: this.line,
+      endColumn: this.tokenStartColumn + Array.from(text).length,
+      offset: this.baseOffset + this.start,
+      endOffset: this.baseOffset + this.start + text.length,
+    });
+  }
+
+  private addToken(type: TokenType, value: unknown = null, lexeme = this.source.slice(this.start, this.current)): void {
+    this.tokens.push(
+      createToken(type, lexeme, value, {
+        line: this.tokenStartLine,
+        column: this.tokenStartColumn,
+        endLine: this.line,
+        endColumn: this.column,
+        offset: this.baseOffset + this.start,
+        endOffset: this.baseOffset + this.current,
+      })
+    );
   }
 }
@@ -1,3 +1,3 @@
 export { TokenType } from './TokenType.js';
-export { Token, createToken, tokenToString } from './Token.js';
-export { Tokenizer, TokenizerError } from './Tokenizer.js';
+export { Token, TemplatePart, SourceSpan, SourceComment, createToken, spanBetween, copySpan, tokenToString } from './Token.js';
+export { Tokenizer, TokenizerError, type TokenizeResult } from './Tokenizer.js';
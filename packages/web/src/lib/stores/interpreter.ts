@@ -66,12 +66,26 @@ function createInterpreterStore() {
     }
 
     try {
+      // 구문 오류는 한 번에 모두 보고
       const tokenizer = new Tokenizer(trimmedCode);
-      const tokens = tokenizer.tokenize();
+      const { tokens, errors: tokenizerErrors } = tokenizer.tokenizeWithDiagnostics();
 
       const parser = new Parser(tokens);
-      const statements = parser.parse();
+      const { statements, errors: parserErrors } = parser.parseWithDiagnostics();
 
+      if (tokenizerErrors.length > 0 || parserErrors.length > 0) {
+        const errorLines: OutputLine[] = [
+          ...tokenizerErrors.map((e) => ({ type: 'error' as const, text: `Tokenizer Error: ${e.message}` })),
+          ...parserErrors.map((e) => ({ type: 'error' as const, text: `Parser Error: ${e.message}` })),
+        ];
+        update((state) => ({
+          ...state,
+          output: [...state.output, ...errorLines],
+        }));
+        return;
+      }
+
+      interpreter!.setSource(tokens, statements);
       interpreter!.execute(statements);
 
       // 그래프 데이터 업데이트
@@ -136,6 +150,26 @@ function createInterpreterStore() {
         'Player HAS HP 100     - Set property',
         'Player CAN ATTACK     - Add ability',
         'Player PRINT          - Print node name',
+        '"HP: {Player.HP}" PRINT - String interpolation',
+        'Alice TRUSTS Bob WITH Level 3 - Relation with edge attributes',
+        'Alice.TRUSTS[Bob].Level PRINT - Read edge attribute',
+        'Player HAS Tags ["brave"] - List property',
+        'Alice LOSES LIKES Bob - Remove relation edge',
+        'Monster EACH DEEP m DO ... END - Loop over all descendants',
+        'Player.OWNS EACH item DO ... END - Loop over list items or relation targets',
+        'WHILE (Orc.HP > 0) DO ... END - Loop while a condition holds',
+        'REPEAT 3 DO ... END  - Loop a fixed number of times',
+        'LET total = 0         - Declare a block-scoped variable',
+        'SET total = total + 1 - Update a declared variable',
+        'FUNCTION CalcDamage(a, b) DO ... RETURN x END - Define a function',
+        'CalcDamage(Player, Goblin) PRINT - Call a function',
+        'CLAMP(Player.HP, 0, 100) - Built-in functions (MIN MAX ABS FLOOR ROUND CLAMP LEN UPPER LOWER SUBSTR TYPEOF)',
+        'Game HAS Gold (SUM Gold OF ?party) - Aggregates: COUNT Type, SUM/AVG/MIN/MAX Prop OF Type|?query',
+        '?m IS Monster AND ?m LOCATED_IN ?room AND NOT ?room IS Lit - Query with joins (AND/OR/NOT)',
+        '?m IS Monster DISTINCT ORDER BY ?m.HP DESC LIMIT 3 OFFSET 1 - Sort and page query results',
+        'RULE ?x IS Undead WHEN ?x IS Monster AND ?x HAS HP 0 - Derived facts, kept up to date',
+        'ON Monster.HP CHANGES AS m DO ... END - Trigger on property changes',
+        'ON ?x IS Dead DO ... END - Trigger when a node starts matching',
         'DEBUG GRAPH           - Show graph state',
       ];
       update((state) => ({